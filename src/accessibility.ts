@@ -0,0 +1,107 @@
+import { ChartDescription, PatternShape, SupportedLocale, Theme } from './types';
+import { MessageKey, t } from './i18n';
+import { extent } from './statistics';
+import { COLORBLIND_THEME, DEFAULT_THEME, withAlpha } from './theme';
+
+export const COLORBLIND_SAFE_PALETTE = COLORBLIND_THEME.palette.categorical;
+export const PATTERN_SHAPES: PatternShape[] = ['diagonal', 'dots', 'cross', 'horizontal', 'vertical', 'zigzag'];
+// Chart.js borderDash per series; the first series stays solid
+export const DASH_STYLES: number[][] = [[], [8, 4], [2, 3], [12, 4, 2, 4], [4, 4], [1, 6]];
+const POINT_STYLES = ['circle', 'rect', 'triangle', 'rectRot', 'star', 'crossRot'];
+
+const BUILTIN_CHART_TYPES = ['bar_chart', 'line_chart', 'pie_chart', 'area_chart', 'scatter_plot', 'horizontal_bar', 'table', 'map'];
+const LINE_CHART_TYPES = ['line_chart', 'area_chart'];
+// Values listed per series in the long description
+const MAX_DESCRIBED_VALUES = 20;
+
+// Colour-blind-safe colours plus a second, colour-independent cue per series (or per
+// category for single-series bars and pies): fill patterns for bars and areas, dash styles
+// and point shapes for lines. Chart.js needs a pattern plugin to draw `pattern`; the SVG
+// renderer draws it natively. `theme` is the one the config was generated with.
+export function applyAccessibleStyling(config: any, theme: Theme = DEFAULT_THEME): any {
+  // Maps use a sequential ramp, which reads fine without hue
+  if (!Array.isArray(config?.data?.datasets) || config.type === 'map') return config;
+  const cloned = JSON.parse(JSON.stringify(config));
+  const color = (i: number) => COLORBLIND_SAFE_PALETTE[i % COLORBLIND_SAFE_PALETTE.length];
+  const pattern = (i: number) => PATTERN_SHAPES[i % PATTERN_SHAPES.length];
+
+  cloned.data.datasets.forEach((ds: any, i: number) => {
+    const line = ds.type === 'line' || (ds.type === undefined && LINE_CHART_TYPES.includes(cloned.type));
+    if (line) {
+      ds.borderColor = color(i);
+      if (ds.backgroundColor !== undefined && ds.backgroundColor !== 'transparent') ds.backgroundColor = withAlpha(color(i), 0.2);
+      ds.borderDash = DASH_STYLES[i % DASH_STYLES.length];
+      ds.pointStyle = POINT_STYLES[i % POINT_STYLES.length];
+      if (cloned.type === 'area_chart') ds.pattern = pattern(i);
+    } else if (Array.isArray(ds.backgroundColor)) {
+      // One colour per category
+      ds.backgroundColor = ds.backgroundColor.map((_: string, j: number) => color(j));
+      ds.pattern = ds.backgroundColor.map((_: string, j: number) => pattern(j));
+      // Slice separators drawn in the background colour stay; other borders turn black
+      if (ds.borderColor !== theme.colors.background) ds.borderColor = '#000000';
+    } else {
+      ds.backgroundColor = color(i);
+      ds.borderColor = color(i);
+      if (cloned.type === 'scatter_plot') ds.pointStyle = POINT_STYLES[i % POINT_STYLES.length];
+      else ds.pattern = pattern(i);
+    }
+  });
+
+  cloned.meta = { ...cloned.meta, accessibility: { ...cloned.meta?.accessibility, palette: 'okabe-ito', patterns: true } };
+  return cloned;
+}
+
+// Short alt text plus a long description listing the plotted values, for screen readers
+export function describeChart(config: any, locale: SupportedLocale): ChartDescription {
+  const meta = config?.meta || {};
+  const chart = BUILTIN_CHART_TYPES.includes(config?.type) ? t(locale, `chart.${config.type}.title` as MessageKey) : String(config?.type ?? '');
+  const title = config?.options?.plugins?.title?.text;
+  const heading = title ? `${chart}: ${title}` : chart;
+
+  if (config?.type === 'table') {
+    const columns: any[] = config.columns || [];
+    const altText = t(locale, 'a11y.table', { rows: (config.rows || []).length, columns: columns.length, names: columns.map(c => c.label).join(', ') });
+    return { altText, longDescription: altText };
+  }
+
+  const labels: string[] = config?.data?.labels || [];
+  const datasets: any[] = config?.data?.datasets || [];
+  // Projected periods and band bounds are not observations
+  const observed = labels.length - (meta.forecast?.horizon || 0);
+  const series = meta.forecast ? datasets.slice(0, meta.forecast.datasetIndex) : datasets;
+  const insights: string[] = (meta.insights || []).map((insight: any) => insight.text);
+
+  let altText: string;
+  if (meta.correlation) {
+    altText = t(locale, 'a11y.points', { heading, count: meta.correlation.n });
+  } else if (series.length > 0 && observed > 0 && Array.isArray(series[0].data)) {
+    const values: number[] = series[0].data.slice(0, observed).map((v: any) => Number(v || 0));
+    if (meta.time) {
+      altText = t(locale, 'a11y.periods', {
+        heading, count: observed, first: labels[0], last: labels[observed - 1], start: round(values[0]), end: round(values[observed - 1]),
+      });
+    } else {
+      const [min, max] = extent(values);
+      altText = t(locale, 'a11y.categories', {
+        heading, count: observed, max: round(max), maxLabel: labels[values.indexOf(max)], min: round(min), minLabel: labels[values.indexOf(min)],
+      });
+    }
+  } else {
+    altText = t(locale, 'a11y.generic', { heading });
+  }
+
+  const details = meta.correlation ? [] : series
+    .filter(ds => Array.isArray(ds.data) && !ds.data.some((v: any) => v !== null && typeof v === 'object'))
+    .map(ds => {
+      const listed = labels.slice(0, Math.min(observed, MAX_DESCRIBED_VALUES)).map((label, i) => `${label} ${round(ds.data[i])}`);
+      if (observed > MAX_DESCRIBED_VALUES) listed.push(t(locale, 'a11y.more', { count: observed - MAX_DESCRIBED_VALUES }));
+      return t(locale, 'a11y.series', { label: ds.label, values: listed.join(', ') });
+    });
+
+  return { altText, longDescription: [altText, ...details, ...insights].join(' ') };
+}
+
+function round(value: unknown): string {
+  const n = Number(value ?? 0);
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
@@ -0,0 +1,64 @@
+import { AggregationFunction } from './types';
+import { extent } from './statistics';
+
+export const AGGREGATION_FUNCTIONS: AggregationFunction[] = ['sum', 'avg', 'count', 'count_distinct', 'min', 'max', 'median'];
+
+export function isAggregationFunction(value: unknown): value is AggregationFunction {
+  return typeof value === 'string' && (AGGREGATION_FUNCTIONS as string[]).includes(value);
+}
+
+// Combine the raw values of one group. Sums treat missing values as 0 (as before);
+// the other numeric functions ignore them.
+export function aggregateValues(values: unknown[], aggregation: AggregationFunction): number {
+  if (aggregation === 'count') return values.length;
+  if (aggregation === 'count_distinct') {
+    return new Set(values.filter(v => v !== null && v !== undefined && v !== '').map(v => String(v))).size;
+  }
+  if (aggregation === 'sum') return values.reduce<number>((acc, v) => acc + Number(v ?? 0), 0);
+
+  const numbers = values
+    .filter(v => v !== null && v !== undefined && v !== '')
+    .map(v => Number(v))
+    .filter(n => Number.isFinite(n));
+  if (numbers.length === 0) return 0;
+
+  switch (aggregation) {
+    case 'avg':
+      return Number((numbers.reduce((a, b) => a + b, 0) / numbers.length).toFixed(2));
+    case 'min':
+      return extent(numbers)[0];
+    case 'max':
+      return extent(numbers)[1];
+    case 'median': {
+      const sorted = numbers.slice().sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+  }
+  return 0;
+}
+
+// Aggregation asked for in the question ("média de ticket", "quantos pedidos", "max price")
+export function aggregationFromQuestion(question: string): AggregationFunction | undefined {
+  const q = question.toLowerCase();
+  const rules: Array<[AggregationFunction, RegExp]> = [
+    ['count_distinct', /(distint[oa]s|[úu]nic[oa]s|\bdiferentes\b|\bdistinct\b|\bunique\b)/],
+    ['median', /\b(mediana|median)\b/],
+    ['avg', /\b(m[ée]dia|m[ée]dio|average|avg|mean|promedio)\b/],
+    ['count', /\b(quant[oa]s|quantidade de|n[úu]mero de|contagem|how many|number of|count|cu[áa]nt[oa]s|cantidad de)\b/],
+    ['max', /\b(m[áa]xim[oa]|maior valor|max|maximum|highest)\b/],
+    ['min', /\b(m[íi]nim[oa]|menor valor|min|minimum|lowest)\b/],
+  ];
+  for (const [aggregation, pattern] of rules) {
+    if (pattern.test(q)) return aggregation;
+  }
+  return undefined;
+}
+
+// N of a ranking question ("top 10", "os 5 maiores", "10 largest", "3 mayores")
+export function topNFromQuestion(question: string): number | undefined {
+  const q = question.toLowerCase();
+  const match = q.match(/\btop\s*(\d+)\b/) || q.match(/\b(\d+)\s+(maiores|principais|largest|biggest|mayores|principales)\b/);
+  const n = match ? parseInt(match[1], 10) : NaN;
+  return n > 0 ? n : undefined;
+}
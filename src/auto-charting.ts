@@ -1,73 +1,255 @@
-import { ChartSuggestion, ChartType, DataStructure, DataPoint } from './types';
-import { generateChartConfig } from './chart-generator';
+import { AggregationFunction, ChartContext, FeedbackInput, FeedbackKey, FeedbackRecord, FeedbackStore, LearnedPreference, ChartPlugin, ChartSuggestion, ChartTypeId, ColumnSchema, DataLimits, DataStructure, DataPoint, ChartGenerationOptions, ForecastOptions, QuestionIntents, ScoringOptions, SuggestOptions, SupportedLocale, Theme, ThemeSelection, ValueFormat } from './types';
+import { ChartRegistry, createDefaultRegistry, resolveText } from './chart-registry';
+import { extent, iqrOutliers, trendOutliers } from './statistics';
+import { generateInsights, rankInsights } from './insights';
+import { mentions, resolveLocale, t } from './i18n';
+import { granularityFromQuestion, nextPeriods, parseTemporal } from './time';
+import { forecastSeries, seasonLengthFor } from './forecast';
+import { aggregationFromQuestion, topNFromQuestion } from './aggregation';
+import { applySchema, isTimeColumn, roleOf } from './schema';
+import { DEFAULT_DATA_LIMITS, profileColumns } from './profile';
+import { lttbIndices, strideIndices } from './downsample';
+import { applyAccessibleStyling, describeChart } from './accessibility';
+import { applyThemeOptions, resolveTheme, withAlpha } from './theme';
+import { detectUnit, formatForUnit, formatReadable } from './formatters';
+import { explainConfidence, scoreChart } from './scoring';
+import { MemoryFeedbackStore, applyPreference, fingerprintStructure, intentOf, learnedPreferences, preferenceAdjustments } from './feedback';
+
+const ANOMALY_CHART_TYPES = ['bar_chart', 'horizontal_bar', 'line_chart', 'area_chart'];
+const FORECAST_CHART_TYPES = ['line_chart', 'area_chart'];
+const MAX_NARRATIVE_INSIGHTS = 5;
+const SERIES_CHART_TYPES = ['line_chart', 'area_chart', 'bar_chart', 'horizontal_bar'];
+
+export interface AutoChartingEngineOptions {
+  // Chart plugins to rank; defaults to the built-in chart types
+  registry?: ChartRegistry;
+  // Caps for big query results; unset fields use DEFAULT_DATA_LIMITS
+  limits?: Partial<DataLimits>;
+  // Theme of requests that don't pick one (default 'light')
+  theme?: ThemeSelection;
+  // Base confidence and per-chart factor weights used to rank suggestions
+  scoring?: ScoringOptions;
+  // Where picks and dismissals are kept; rankings of similar requests learn from them
+  // (default: in memory)
+  feedback?: FeedbackStore;
+}
 
 export class AutoChartingEngine {
   private chartSuggestions: ChartSuggestion[] = [];
+  private registry: ChartRegistry;
+  private limits: DataLimits;
+  private theme?: ThemeSelection;
+  private scoring: ScoringOptions;
+  private feedback: FeedbackStore;
+
+  constructor(options: AutoChartingEngineOptions = {}) {
+    this.registry = options.registry || createDefaultRegistry();
+    this.limits = { ...DEFAULT_DATA_LIMITS, ...options.limits };
+    this.theme = options.theme;
+    this.scoring = options.scoring || {};
+    this.feedback = options.feedback || new MemoryFeedbackStore();
+  }
+
+  // Add (or replace) a chart type, e.g. a company-specific KPI tile
+  registerChart(plugin: ChartPlugin): this {
+    this.registry.register(plugin);
+    return this;
+  }
+
+  getRegistry(): ChartRegistry {
+    return this.registry;
+  }
   
-  suggestCharts(data: DataPoint[], originalQuestion?: string): ChartSuggestion[] {
-    const suggestions: ChartSuggestion[] = [];
+  suggestCharts(data: DataPoint[], originalQuestion?: string, options: SuggestOptions = {}): ChartSuggestion[] {
+    return this.rankCharts(data, originalQuestion, options).slice(0, 3); // Return top 3 suggestions
+  }
+
+  // Every applicable suggestion, best first
+  rankCharts(data: DataPoint[], originalQuestion?: string, options: SuggestOptions = {}): ChartSuggestion[] {
+    const context = this.buildContext(data, originalQuestion, options);
+    const plugins = this.registry.list();
+
+    let applicable = plugins.filter(plugin => plugin.isApplicable(context));
+    if (applicable.length === 0) {
+      applicable = plugins.filter(plugin => plugin.fallback);
+    }
+
+    const suggestions = applicable.map(plugin => this.buildSuggestion(plugin, context));
     
+    // Sort by confidence
+    suggestions.sort((a, b) => b.confidence - a.confidence);
+    
+    return suggestions;
+  }
+
+  // Single suggestion of a given type, optionally pinned to specific columns
+  suggestChart(
+    chartType: ChartTypeId,
+    data: DataPoint[],
+    originalQuestion?: string,
+    options: ChartGenerationOptions = {},
+    suggestOptions: SuggestOptions = {}
+  ): ChartSuggestion {
+    const plugin = this.registry.get(chartType);
+    if (!plugin) {
+      throw new Error(`Unknown chart type: ${chartType}`);
+    }
+    return this.buildSuggestion(plugin, this.buildContext(data, originalQuestion, suggestOptions), options);
+  }
+
+  // Remember that a suggestion was picked or dismissed, for rankings of similar requests
+  recordFeedback(feedback: FeedbackInput): FeedbackRecord {
+    const key: FeedbackKey = feedback.fingerprint && feedback.intent
+      ? { fingerprint: feedback.fingerprint, intent: feedback.intent }
+      : this.feedbackKeyOf(this.buildContext(feedback.data || [], feedback.question, { schema: feedback.schema, locale: feedback.locale }));
+    const record: FeedbackRecord = {
+      ...key,
+      chartType: feedback.chartType,
+      action: feedback.action,
+      ...(feedback.rank !== undefined ? { rank: feedback.rank } : {}),
+      at: new Date().toISOString(),
+    };
+    this.feedback.append(record);
+    return record;
+  }
+
+  // Recorded feedback and the preferences learned from it
+  exportFeedback(): { records: FeedbackRecord[]; preferences: LearnedPreference[] } {
+    const records = this.feedback.list();
+    return { records, preferences: learnedPreferences(records) };
+  }
+
+  // Forget the learned preferences; returns how many records were dropped
+  resetFeedback(): number {
+    const count = this.feedback.list().length;
+    this.feedback.clear();
+    return count;
+  }
+
+  private buildContext(data: DataPoint[], originalQuestion?: string, options: SuggestOptions = {}): ChartContext {
     const question = (originalQuestion || '').toLowerCase();
+    const locale = resolveLocale(options.locale);
     
     // Analyze data structure
-    const dataStructure = this.analyzeDataStructure(data);
+    const dataStructure = this.analyzeDataStructure(data, options.schema);
+
+    const topN = options.topN || topNFromQuestion(question);
 
     // Basic heuristics about the dataset
-    const { stringColumns, numberColumns, dateLikeColumns, categoryCandidates } = this.summarizeColumns(data, dataStructure);
+    const { stringColumns, numberColumns, dateLikeColumns, categoryCandidates } = this.summarizeColumns(data, dataStructure, topN !== undefined);
     const primaryCategory = categoryCandidates[0] || stringColumns[0] || dateLikeColumns[0];
-    const categoryUniqueCount = primaryCategory ? this.uniqueCount(data, primaryCategory) : 0;
+    const categoryUniqueCount = primaryCategory ? this.uniqueCount(data, primaryCategory, dataStructure) : 0;
 
     // Column name mentions in question
     const allColumnNames = Object.keys(dataStructure.columnTypes).map(c => c.toLowerCase());
     const mentionedColumns = allColumnNames.filter(c => question.includes(c));
 
-    const hasTwoCategories = (categoryCandidates.length >= 2) || (mentionedColumns.length >= 2 && stringColumns.length >= 2);
-    
-    // Generate suggestions based on data structure and question
-    const chartTypes = this.getSuggestedChartTypes({
+    const intents = this.detectIntents(question, locale);
+    // Explicit options win; `forecast: false` opts out even when the question asks for a projection
+    const forecast: ForecastOptions | undefined = typeof options.forecast === 'object'
+      ? options.forecast
+      : options.forecast ?? intents.forecast ? {} : undefined;
+
+    return {
+      data,
       dataStructure,
       question,
+      locale,
+      intents,
+      aggregation: options.aggregation || aggregationFromQuestion(question) || 'sum',
+      topN,
+      forecast,
+      accessible: Boolean(options.accessible),
+      theme: resolveTheme(options.theme ?? this.theme),
+      units: options.units,
+      page: options.page,
+      pageSize: options.pageSize,
       hasCategory: categoryCandidates.length > 0 || stringColumns.length > 0,
       categoryUniqueCount,
       hasTime: dataStructure.hasTimeSeries || dateLikeColumns.length > 0,
       hasTwoNumbers: numberColumns.length >= 2,
-      hasTwoCategories,
-    });
+      hasTwoCategories: (categoryCandidates.length >= 2) || (mentionedColumns.length >= 2 && stringColumns.length >= 2),
+    };
+  }
 
-    const asksGrowth = ['crescimento','growth','variação','evolução','aumento','queda','diferença','comparar mês','comparar mes']
-      .some(k => question.includes(k));
-    const asksDistribution = ['proporção','proporcao','distribuição','percentual','participação','participacao']
-      .some(k => question.includes(k));
-    const asksTrend = ['tendência','tendencia','ao longo','timeline'].some(k => question.includes(k));
-    const hasTime = dataStructure.hasTimeSeries || dateLikeColumns.length > 0;
+  private detectIntents(question: string, locale: SupportedLocale): QuestionIntents {
+    return {
+      growth: mentions(question, locale, 'growth'),
+      trend: mentions(question, locale, 'trend'),
+      distribution: mentions(question, locale, 'distribution'),
+      ranking: mentions(question, locale, 'ranking'),
+      correlation: mentions(question, locale, 'correlation'),
+      geographic: mentions(question, locale, 'geographic'),
+      forecast: mentions(question, locale, 'forecast'),
+    };
+  }
 
-    for (const chartType of chartTypes) {
-      let config = generateChartConfig(chartType, data, dataStructure);
+  private buildSuggestion(plugin: ChartPlugin, context: ChartContext, options: ChartGenerationOptions = {}): ChartSuggestion {
+    const { data, dataStructure, question, intents, locale } = context;
+    const theme = context.theme || resolveTheme(this.theme);
 
-      // Enrich: percent-of-total mode for proportion/participation
-      if (asksDistribution) {
-        config = this.applyPercentOfTotal(config);
-      }
+    const granularity = options.granularity || granularityFromQuestion(question);
+    let config: any = plugin.generate(data, dataStructure, { locale, aggregation: context.aggregation, topN: context.topN, theme, page: context.page, pageSize: context.pageSize, ...options, granularity }, context);
 
-      // Enrich: growth series and KPI cards for time/growth questions
-      if ((asksGrowth || asksTrend) && (chartType === 'line_chart' || chartType === 'area_chart') && hasTime) {
-        config = this.applyGrowthEnrichment(config);
-      }
+    // Keep big series drawable before anything is computed from them
+    config = this.applyDownsampling(config);
 
-      // Add narrative
-      config = this.attachNarrative(config, data);
+    // Units of the plotted measures (currency, percent, counts) for ticks, tooltips and prose
+    config = this.applyValueFormats(config, context);
 
-      const suggestion = this.createChartSuggestion(chartType, config, dataStructure, originalQuestion);
-      suggestions.push(suggestion);
+    // Colour-blind-safe palette, patterns and dashes; enrichments below keep their own cues
+    if (context.accessible) {
+      config = applyAccessibleStyling(config, theme);
     }
-    
-    // Sort by confidence
-    suggestions.sort((a, b) => b.confidence - a.confidence);
-    
-    return suggestions.slice(0, 3); // Return top 3 suggestions
+
+    // Enrich: percent-of-total mode for proportion/participation
+    if (intents.distribution) {
+      config = this.applyPercentOfTotal(config, locale);
+    }
+
+    // Enrich: growth series and KPI cards for time/growth questions
+    if ((intents.growth || intents.trend) && plugin.temporal && context.hasTime) {
+      config = this.applyGrowthEnrichment(config, locale, theme);
+    }
+
+    // Enrich: highlight and annotate anomalous points
+    config = this.applyAnomalyAnnotations(config, theme);
+
+    // Enrich: projected periods with a confidence band
+    if (context.forecast && plugin.temporal) {
+      config = this.applyForecast(config, context.forecast, locale, theme);
+    }
+
+    // Fonts, text and grid colours, and the resolved theme in meta
+    config = applyThemeOptions(config, theme);
+
+    // Add narrative
+    config = this.attachNarrative(config, data, locale);
+
+    // Text alternatives, built from the final (enriched) config
+    config.meta.accessibility = { ...config.meta.accessibility, ...describeChart(config, locale) };
+
+    const feedbackKey = this.feedbackKeyOf(context);
+    const preference = preferenceAdjustments(this.feedback.list(), feedbackKey)[plugin.type] || 0;
+    const breakdown = applyPreference(scoreChart(plugin, context, this.scoring), preference, locale);
+    return {
+      type: plugin.type,
+      title: resolveText(plugin.title, locale) || plugin.type,
+      description: resolveText(plugin.description, locale),
+      confidence: breakdown.confidence,
+      confidenceBreakdown: breakdown,
+      config,
+      reasoning: explainConfidence(resolveText(plugin.reasoning(context), locale), breakdown, locale),
+      feedbackKey,
+    };
+  }
+
+  private feedbackKeyOf(context: ChartContext): FeedbackKey {
+    return { fingerprint: fingerprintStructure(context.dataStructure), intent: intentOf(context.intents) };
   }
   
-  private analyzeDataStructure(data: DataPoint[]): DataStructure {
+  // A caller schema overrides the detected types and pins column roles
+  analyzeDataStructure(data: DataPoint[], schema?: ColumnSchema): DataStructure {
     if (data.length === 0) {
       return {
         hasTimeSeries: false,
@@ -82,38 +264,48 @@ export class AutoChartingEngine {
     
     const firstRow = data[0];
     const columns = Object.keys(firstRow);
-    const columnTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'> = {};
+    const detectedTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'> = {};
+
+    // Single pass over the rows: type samples and (capped) distinct counts
+    const profile = profileColumns(data, columns, this.limits.maxDistinct);
     
     // Analyze column types
     for (const column of columns) {
-      columnTypes[column] = this.detectColumnType(data, column);
+      detectedTypes[column] = this.detectColumnType(profile.columns[column].sample);
     }
-    
-    // Detect patterns
-    const hasTimeSeries = this.detectTimeSeries(data, columnTypes);
-    const hasCategories = this.detectCategories(data, columnTypes);
-    const hasNumericalComparison = this.detectNumericalComparison(data, columnTypes);
-    const hasGeographicData = this.detectGeographicData(data, columnTypes);
-    
-    return {
-      hasTimeSeries,
-      hasCategories,
-      hasNumericalComparison,
-      hasGeographicData,
+    const { columnTypes, columnRoles } = applySchema(detectedTypes, schema);
+    const structure: DataStructure = {
+      hasTimeSeries: false,
+      hasCategories: false,
+      hasNumericalComparison: false,
+      hasGeographicData: false,
       columnTypes,
+      distinctCounts: Object.fromEntries(columns.map(c => [c, profile.columns[c].distinct])),
       rowCount: data.length,
       columnCount: columns.length
     };
+    if (Object.keys(columnRoles).length > 0) {
+      structure.columnRoles = columnRoles;
+    }
+    
+    // Detect patterns
+    structure.hasTimeSeries = this.detectTimeSeries(structure);
+    structure.hasCategories = this.detectCategories(data, structure);
+    structure.hasNumericalComparison = this.detectNumericalComparison(structure);
+    structure.hasGeographicData = this.detectGeographicData(structure);
+    
+    return structure;
   }
 
   // Percent-of-total transformation (stacked bar or pie)
-  private applyPercentOfTotal(config: any): any {
+  private applyPercentOfTotal(config: any, locale: SupportedLocale): any {
     if (!config?.data?.datasets || !config?.data?.labels) return config;
 
     const cloned = JSON.parse(JSON.stringify(config));
 
     // For bar charts with multiple datasets: normalize per label across datasets
-    if (cloned.type === 'bar_chart' && cloned.data.datasets.length > 1) {
+    // (not for multi-measure charts, whose datasets are in different units)
+    if (cloned.type === 'bar_chart' && cloned.data.datasets.length > 1 && !cloned.meta?.encoding?.measures) {
       const labels: string[] = cloned.data.labels;
       const datasets = cloned.data.datasets;
       for (let li = 0; li < labels.length; li++) {
@@ -126,14 +318,9 @@ export class AutoChartingEngine {
       cloned.options = cloned.options || {};
       cloned.options.scales = cloned.options.scales || {};
       cloned.options.scales.x = { ...(cloned.options.scales.x || {}), stacked: true };
-      cloned.options.scales.y = { ...(cloned.options.scales.y || {}), beginAtZero: true, max: 100, stacked: true, ticks: { callback: (v: number) => `${v}%` } };
-      cloned.options.plugins = cloned.options.plugins || {};
-      cloned.options.plugins.tooltip = {
-        ...(cloned.options.plugins.tooltip || {}),
-        callbacks: {
-          label: (ctx: any) => `${ctx.dataset.label}: ${ctx.parsed.y ?? ctx.parsed}%`
-        }
-      };
+      cloned.options.scales.y = { ...(cloned.options.scales.y || {}), beginAtZero: true, max: 100, stacked: true };
+      cloned.formats = { ...cloned.formats, axes: { ...cloned.formats?.axes, y: { style: 'percent', locale } }, value: { style: 'percent', locale } };
+      cloned.meta = { ...(cloned.meta || {}), percentOfTotal: true };
       return cloned;
     }
 
@@ -142,14 +329,8 @@ export class AutoChartingEngine {
       const ds = cloned.data.datasets[0];
       const total = (ds.data || []).reduce((acc: number, v: number) => acc + Number(v || 0), 0) || 1;
       ds.data = (ds.data || []).map((v: number) => Number((((Number(v || 0)) / total) * 100).toFixed(2)));
-      cloned.options = cloned.options || {};
-      cloned.options.plugins = cloned.options.plugins || {};
-      cloned.options.plugins.tooltip = {
-        ...(cloned.options.plugins.tooltip || {}),
-        callbacks: {
-          label: (ctx: any) => `${ctx.label}: ${ctx.parsed}%`
-        }
-      };
+      cloned.formats = { ...cloned.formats, value: { style: 'percent', locale } };
+      cloned.meta = { ...(cloned.meta || {}), percentOfTotal: true };
       return cloned;
     }
 
@@ -157,7 +338,7 @@ export class AutoChartingEngine {
   }
 
   // Growth enrichment for time-series charts
-  private applyGrowthEnrichment(config: any): any {
+  private applyGrowthEnrichment(config: any, locale: SupportedLocale, theme: Theme): any {
     if (!config?.data?.labels || !config?.data?.datasets?.length) return config;
 
     const cloned = JSON.parse(JSON.stringify(config));
@@ -183,41 +364,213 @@ export class AutoChartingEngine {
       const deltaAbs = Number((values[lastIdx] - values[lastIdx - 1]).toFixed(2));
       const deltaPct = growthPercents[lastIdx] ?? null;
       const arrow = deltaAbs >= 0 ? '⬆️' : '⬇️';
-      const sign = deltaAbs >= 0 ? '+' : '';
+      const format: ValueFormat = cloned.formats?.value || { style: 'number', locale };
+      const percent = deltaPct !== null ? formatReadable(deltaPct, { style: 'percent', locale }) : 'N/A';
       cloned.meta.cards.push({
         type: 'growth',
-        title: `Crescimento ${prevLabel}→${lastLabel}`,
-        value: `${arrow} ${deltaPct !== null ? `${deltaPct}%` : 'N/A'} (${sign}${deltaAbs})`
+        title: t(locale, 'card.growth', { from: prevLabel, to: lastLabel }),
+        value: `${arrow} ${percent} (${formatReadable(deltaAbs, { ...format, signed: true })})`
       });
     }
 
-    // Add secondary axis dataset for Growth %
+    // Add secondary axis dataset for Growth % (y2 when a multi-measure chart already uses y1)
+    cloned.options = cloned.options || {};
+    cloned.options.scales = cloned.options.scales || {};
+    const growthAxis = cloned.options.scales.y1 ? 'y2' : 'y1';
     cloned.data.datasets.push({
-      label: 'Growth %',
+      label: t(locale, 'label.growthPercent'),
       data: growthPercents.map(v => (v === null ? null : v)),
-      yAxisID: 'y1',
-      borderColor: '#ef4444',
-      backgroundColor: 'rgba(239, 68, 68, 0.2)',
+      yAxisID: growthAxis,
+      borderColor: theme.colors.accent,
+      backgroundColor: withAlpha(theme.colors.accent, 0.2),
+      // Diverging colours mark falls and rises
+      pointBackgroundColor: growthPercents.map(v => (v === null || v === 0 ? theme.palette.diverging[1] : v < 0 ? theme.palette.diverging[0] : theme.palette.diverging[2])),
       borderWidth: 2,
       fill: false,
       tension: 0.1,
     });
 
-    cloned.options = cloned.options || {};
-    cloned.options.scales = cloned.options.scales || {};
     cloned.options.scales.y = { ...(cloned.options.scales.y || {}), beginAtZero: true };
-    cloned.options.scales.y1 = {
+    cloned.options.scales[growthAxis] = {
       type: 'linear',
       position: 'right',
-      grid: { drawOnChartArea: false },
-      ticks: { callback: (v: number) => `${v}%` }
+      grid: { drawOnChartArea: false }
     };
+    cloned.formats = { ...cloned.formats, axes: { ...cloned.formats?.axes, [growthAxis]: { style: 'percent', locale } } };
 
     return cloned;
   }
 
+  // Formats of the plotted values from the measure units; percent-of-total and growth
+  // replace them where they change the unit. Formats set by plugins win.
+  private applyValueFormats(config: any, context: ChartContext): any {
+    const encoding = config?.meta?.encoding;
+    if (!encoding?.measure || config.type === 'table') return config;
+    const formatOf = (column: string): ValueFormat => {
+      const unit = config.meta.aggregation === 'count' ? 'count' : detectUnit(column, context.dataStructure, context.units);
+      return formatForUnit(unit, context.locale);
+    };
+    // Ticks are short labels
+    const tick = (column: string): ValueFormat => ({ ...formatOf(column), compact: true });
+
+    const axes: Record<string, ValueFormat> = {};
+    if (config.meta.correlation) {
+      axes.x = tick(encoding.dimension);
+      axes.y = tick(encoding.measure);
+    } else if (config.type === 'horizontal_bar') {
+      axes.x = tick(encoding.measure);
+    } else if (config.type !== 'pie_chart' && config.type !== 'map') {
+      axes.y = tick(encoding.measure);
+      const secondary: string | undefined = config.meta.secondaryAxis?.[0];
+      if (secondary) axes.y1 = tick(secondary);
+    }
+    return {
+      ...config,
+      formats: { ...config.formats, axes: { ...axes, ...config.formats?.axes }, value: config.formats?.value ?? formatOf(encoding.measure) },
+    };
+  }
+
+  // Downsampling: LTTB keeps the shape of long series, scatter clouds get an even stride sample
+  private applyDownsampling(config: any): any {
+    const datasets: any[] = config?.data?.datasets || [];
+    if (datasets.length === 0) return config;
+    const labels: string[] = config.data.labels || [];
+
+    if (SERIES_CHART_TYPES.includes(config.type) && labels.length > this.limits.maxSeriesPoints) {
+      const keep = lttbIndices(datasets[0].data, this.limits.maxSeriesPoints);
+      const pick = (values: any) => (Array.isArray(values) && values.length === labels.length ? keep.map(i => values[i]) : values);
+      return {
+        ...config,
+        data: {
+          ...config.data,
+          labels: pick(labels),
+          datasets: datasets.map(ds => ({ ...ds, data: pick(ds.data), backgroundColor: pick(ds.backgroundColor) })),
+        },
+        meta: { ...config.meta, sampling: { method: 'lttb', originalPoints: labels.length, points: keep.length, limit: this.limits.maxSeriesPoints } },
+      };
+    }
+
+    if (config.type === 'scatter_plot') {
+      // The trend line (type 'line') already spans the full data
+      const clouds = datasets.filter(ds => ds.type !== 'line');
+      const total = clouds.reduce((acc, ds) => acc + ds.data.length, 0);
+      if (total <= this.limits.maxScatterPoints) return config;
+      const ratio = this.limits.maxScatterPoints / total;
+      const sampled = datasets.map(ds => {
+        if (ds.type === 'line') return ds;
+        const keep = strideIndices(ds.data.length, Math.max(1, Math.floor(ds.data.length * ratio)));
+        return { ...ds, data: keep.map(i => ds.data[i]) };
+      });
+      // Labelled scatter: category labels follow the single dataset
+      const keptLabels = labels.length === datasets[0].data.length
+        ? strideIndices(labels.length, sampled[0].data.length).map(i => labels[i])
+        : labels;
+      const points = sampled.filter(ds => ds.type !== 'line').reduce((acc, ds) => acc + ds.data.length, 0);
+      return {
+        ...config,
+        data: { ...config.data, labels: keptLabels, datasets: sampled },
+        meta: { ...config.meta, sampling: { method: 'stride', originalPoints: total, points, limit: this.limits.maxScatterPoints } },
+      };
+    }
+
+    return config;
+  }
+
+  // Anomalies: residuals from the trend for time series, IQR fences for categories
+  private applyAnomalyAnnotations(config: any, theme: Theme): any {
+    if (!ANOMALY_CHART_TYPES.includes(config?.type) || !config?.data?.datasets?.length) return config;
+
+    const cloned = JSON.parse(JSON.stringify(config));
+    const labels: string[] = cloned.data.labels || [];
+    const ds = cloned.data.datasets[0];
+    const values: Array<number | null> = (ds.data || []).map((v: any) => (typeof v === 'number' ? v : null));
+    // The folded "Outros" bucket is not comparable with single categories
+    if (cloned.meta?.topN?.folded) values[values.length - 1] = null;
+
+    const temporal = Boolean(cloned.meta?.time);
+    const outliers = temporal ? trendOutliers(values) : iqrOutliers(values);
+    if (outliers.length === 0) return config;
+
+    const flagged = new Set(outliers.map(o => o.index));
+    if (cloned.type === 'bar_chart' || cloned.type === 'horizontal_bar') {
+      const fill = labels.map((_, i) => (Array.isArray(ds.backgroundColor) ? ds.backgroundColor[i] : ds.backgroundColor));
+      ds.backgroundColor = fill.map((c: string, i: number) => (flagged.has(i) ? theme.colors.anomaly : c));
+      ds.borderColor = labels.map((_, i) => (flagged.has(i) ? theme.colors.anomaly : ds.borderColor));
+    } else {
+      ds.pointBackgroundColor = labels.map((_, i) => (flagged.has(i) ? theme.colors.anomaly : ds.borderColor));
+      ds.pointRadius = labels.map((_, i) => (flagged.has(i) ? 6 : 3));
+    }
+
+    cloned.meta = cloned.meta || {};
+    cloned.meta.annotations = [
+      ...(cloned.meta.annotations || []),
+      ...outliers.map(o => ({
+        type: 'anomaly',
+        datasetIndex: 0,
+        index: o.index,
+        label: labels[o.index],
+        value: o.value,
+        expected: Number(o.expected.toFixed(2)),
+        deviationPercent: o.expected !== 0 ? Number((((o.value - o.expected) / Math.abs(o.expected)) * 100).toFixed(1)) : null,
+        direction: o.value >= o.expected ? 'above' : 'below',
+        method: temporal ? 'trend' : 'iqr',
+      })),
+    ];
+    return cloned;
+  }
+
+  // Forecast: fit the observed series and append future periods as a dashed dataset between band limits
+  private applyForecast(config: any, options: ForecastOptions, locale: SupportedLocale, theme: Theme): any {
+    if (!FORECAST_CHART_TYPES.includes(config?.type) || !config?.meta?.time || !config?.data?.datasets?.length) return config;
+
+    const labels: string[] = config.data.labels || [];
+    const base = config.data.datasets[0];
+    const values: number[] = (base.data || []).map((n: any) => Number(n || 0));
+    const granularity = config.meta.time.granularity;
+    const result = forecastSeries(values, { ...options, seasonLength: seasonLengthFor(granularity) });
+    const future = result && labels.length ? nextPeriods(labels[labels.length - 1], granularity, result.horizon) : null;
+    if (!result || !future) return config;
+
+    const cloned = JSON.parse(JSON.stringify(config));
+    // Start every forecast series at the last observed value so the lines connect
+    const lead = labels.map((_, i) => (i === labels.length - 1 ? values[i] : null));
+    const axis = base.yAxisID ? { yAxisID: base.yAxisID } : {};
+    const confidence = Math.round(result.confidence * 100);
+    const band = { type: 'line', ...axis, borderColor: withAlpha(theme.colors.forecast, 0.4), backgroundColor: withAlpha(theme.colors.forecast, 0.15), borderWidth: 1, pointRadius: 0, tension: 0 };
+
+    cloned.data.labels = [...labels, ...future];
+    const forecastIndex = cloned.data.datasets.length;
+    cloned.data.datasets.push(
+      {
+        label: t(locale, 'label.forecast'),
+        data: [...lead, ...result.values],
+        type: 'line',
+        ...axis,
+        borderColor: base.borderColor,
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        borderDash: [6, 4],
+        fill: false,
+        tension: 0,
+        pointRadius: 0,
+      },
+      { ...band, label: t(locale, 'label.forecastLower', { confidence }), data: [...lead, ...result.lower], fill: false },
+      { ...band, label: t(locale, 'label.forecastUpper', { confidence }), data: [...lead, ...result.upper], fill: '-1' },
+    );
+
+    cloned.meta.forecast = {
+      model: result.model,
+      horizon: result.horizon,
+      confidence: result.confidence,
+      ...(result.seasonLength ? { seasonLength: result.seasonLength } : {}),
+      startIndex: labels.length,
+      datasetIndex: forecastIndex,
+    };
+    return cloned;
+  }
+
   // Narrative summarization
-  private attachNarrative(config: any, data: DataPoint[]): any {
+  private attachNarrative(config: any, data: DataPoint[], locale: SupportedLocale): any {
     const cloned = JSON.parse(JSON.stringify(config));
     if (!cloned.meta) cloned.meta = {};
 
@@ -229,34 +582,55 @@ export class AutoChartingEngine {
       const hasDatasets = datasets.length > 0 && Array.isArray(datasets[0]?.data);
 
       let narrativeParts: string[] = [];
-
-      if (hasDatasets) {
+      const correlation = cloned.meta.correlation;
+      const insights = generateInsights(cloned, locale);
+      cloned.meta.insights = insights;
+
+      if (correlation) {
+        // x/y scatter: points are objects, so summarize the relationship instead
+        narrativeParts.push(t(locale, 'narrative.points', { count: correlation.n }));
+      } else if (hasDatasets) {
         const ds0 = datasets[0];
         const values: number[] = (ds0.data || []).map((v: any) => Number(v || 0));
         const sum = values.reduce((a: number, b: number) => a + b, 0);
         const avg = values.length ? sum / values.length : 0;
-        const maxVal = Math.max(...values);
-        const minVal = Math.min(...values);
+        const [minVal, maxVal] = extent(values);
         const maxIdx = values.indexOf(maxVal);
         const minIdx = values.indexOf(minVal);
         const maxLabel = labels[maxIdx] ?? '';
         const minLabel = labels[minIdx] ?? '';
 
-        narrativeParts.push(`Total de pontos analisados: ${totalRows}.`);
-        if (labels.length) narrativeParts.push(`Categorias/Períodos: ${labels.length}.`);
-        narrativeParts.push(`Média: ${avg.toFixed(1)}; Máx: ${maxVal} (${maxLabel}); Mín: ${minVal} (${minLabel}).`);
-
-        if (datasets.length > 1) {
-          narrativeParts.push(`Foram comparadas ${datasets.length} séries (ex.: ${datasets[0].label} vs ${datasets[1].label}).`);
+        narrativeParts.push(t(locale, 'narrative.points', { count: totalRows }));
+        // Projected periods are not observations
+        const observed = labels.length - (cloned.meta.forecast?.horizon || 0);
+        if (observed > 0) narrativeParts.push(t(locale, 'narrative.categories', { count: observed }));
+        const format: ValueFormat = cloned.formats?.value || { style: 'number', locale };
+        narrativeParts.push(t(locale, 'narrative.stats', {
+          avg: formatReadable(avg, format), max: formatReadable(maxVal, format), maxLabel, min: formatReadable(minVal, format), minLabel,
+        }));
+
+        // Say how values were combined when it is not a plain sum
+        const aggregation: AggregationFunction | undefined = cloned.meta.aggregation;
+        if (aggregation && aggregation !== 'sum' && cloned.meta.encoding?.measure) {
+          const measure = t(locale, `aggregation.${aggregation}`, { measure: cloned.meta.encoding.measure });
+          narrativeParts.push(t(locale, 'narrative.aggregation', { measure }));
         }
 
-        // If growth meta card exists, reference it
-        const growthCard = cloned.meta.cards?.find((c: any) => c.type === 'growth');
-        if (growthCard) {
-          narrativeParts.push(`Variação recente: ${growthCard.value}.`);
+        const series = cloned.meta.forecast ? datasets.slice(0, cloned.meta.forecast.datasetIndex) : datasets;
+        if (series.length > 1) {
+          narrativeParts.push(t(locale, 'narrative.series', { count: series.length, first: series[0].label, second: series[1].label }));
         }
       } else {
-        narrativeParts.push(`Total de registros: ${totalRows}.`);
+        narrativeParts.push(t(locale, 'narrative.records', { count: totalRows }));
+      }
+
+      // The most relevant findings, strongest first
+      narrativeParts.push(...rankInsights(insights).slice(0, MAX_NARRATIVE_INSIGHTS).map(insight => insight.text));
+
+      // If growth meta card exists, reference it
+      const growthCard = cloned.meta.cards?.find((c: any) => c.type === 'growth');
+      if (growthCard) {
+        narrativeParts.push(t(locale, 'narrative.recentChange', { value: growthCard.value }));
       }
 
       cloned.meta.narrative = narrativeParts.join(' ');
@@ -268,30 +642,31 @@ export class AutoChartingEngine {
   }
 
   // NEW: summarization helpers
-  private summarizeColumns(data: DataPoint[], columnInfo: DataStructure) {
+  // With a top-N ranking, high-cardinality columns are still categories (the tail gets folded)
+  private summarizeColumns(data: DataPoint[], columnInfo: DataStructure, ranked = false) {
     const columns = Object.keys(columnInfo.columnTypes);
-    const stringColumns = columns.filter(c => columnInfo.columnTypes[c] === 'string');
-    const numberColumns = columns.filter(c => columnInfo.columnTypes[c] === 'number');
-    const dateLikeColumns = columns.filter(c => columnInfo.columnTypes[c] === 'date' || c.toLowerCase().includes('month') || c.toLowerCase().includes('date') || c.toLowerCase().includes('time'));
+    const stringColumns = columns.filter(c => columnInfo.columnTypes[c] === 'string' && roleOf(columnInfo, c) !== 'identifier');
+    const numberColumns = columns.filter(c => columnInfo.columnTypes[c] === 'number' && roleOf(columnInfo, c) !== 'identifier');
+    const dateLikeColumns = columns.filter(c => isTimeColumn(c, columnInfo));
     
     // Candidate categorical columns (string with limited unique values)
     const categoryCandidates = stringColumns.filter(c => {
-      const u = this.uniqueCount(data, c);
-      return u >= 2 && u <= 20; // treat as category if not too many unique values
+      const u = this.uniqueCount(data, c, columnInfo);
+      return u >= 2 && (ranked || u <= 20); // treat as category if not too many unique values
     });
 
     return { stringColumns, numberColumns, dateLikeColumns, categoryCandidates };
   }
 
-  private uniqueCount(data: DataPoint[], column: string): number {
+  private uniqueCount(data: DataPoint[], column: string, dataStructure?: DataStructure): number {
+    const profiled = dataStructure?.distinctCounts?.[column];
+    if (profiled !== undefined) return profiled;
     const s = new Set<any>();
     for (const row of data) s.add(row[column]);
     return s.size;
   }
   
-  private detectColumnType(data: DataPoint[], column: string): 'string' | 'number' | 'date' | 'boolean' {
-    const sampleValues = data.slice(0, 10).map(row => row[column]);
-    
+  private detectColumnType(sampleValues: unknown[]): 'string' | 'number' | 'date' | 'boolean' {
     // Check if all values are numbers
     const allNumbers = sampleValues.every(val => 
       typeof val === 'number' || (typeof val === 'string' && !isNaN(Number(val)))
@@ -306,47 +681,29 @@ export class AutoChartingEngine {
     
     if (allBooleans) return 'boolean';
     
-    // Check if all values are dates or month strings
-    const allDates = sampleValues.every(val => {
-      if (typeof val === 'string') {
-        const lower = val.toLowerCase();
-        const looksLikeMonth = ['jan','fev','mar','abr','mai','jun','jul','ago','set','out','nov','dez','january','february','march','april','may','june','july','august','september','october','november','december']
-          .some(m => lower.includes(m));
-        if (looksLikeMonth) return true;
-        const date = new Date(val);
-        return !isNaN(date.getTime());
-      }
-      return false;
-    });
+    // Check if all values are dates, periods ("2024-Q1") or month names
+    const allDates = sampleValues.every(val => 
+      (typeof val === 'string' || val instanceof Date) && parseTemporal(val) !== null
+    );
     
     if (allDates) return 'date';
     
     return 'string';
   }
   
-  private detectTimeSeries(data: DataPoint[], columnTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'>): boolean {
-    const dateColumns = Object.entries(columnTypes)
-      .filter(([_, type]) => type === 'date')
-      .map(([col, _]) => col);
-    
-    const monthColumns = Object.keys(columnTypes).filter(col => 
-      col.toLowerCase().includes('month') || 
-      col.toLowerCase().includes('date') ||
-      col.toLowerCase().includes('time')
-    );
-    
-    return dateColumns.length > 0 || monthColumns.length > 0;
+  private detectTimeSeries(dataStructure: DataStructure): boolean {
+    return Object.keys(dataStructure.columnTypes).some(col => isTimeColumn(col, dataStructure));
   }
   
-  private detectCategories(data: DataPoint[], columnTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'>): boolean {
-    const stringColumns = Object.entries(columnTypes)
-      .filter(([_, type]) => type === 'string')
+  private detectCategories(data: DataPoint[], dataStructure: DataStructure): boolean {
+    const stringColumns = Object.entries(dataStructure.columnTypes)
+      .filter(([col, type]) => type === 'string' && roleOf(dataStructure, col) !== 'identifier')
       .map(([col, _]) => col);
     
     // Check if string columns have limited unique values (categories)
     for (const column of stringColumns) {
-      const uniqueValues = new Set(data.map(row => row[column]));
-      if (uniqueValues.size > 1 && uniqueValues.size <= 20) {
+      const unique = this.uniqueCount(data, column, dataStructure);
+      if (unique > 1 && unique <= 20) {
         return true;
       }
     }
@@ -354,189 +711,29 @@ export class AutoChartingEngine {
     return false;
   }
   
-  private detectNumericalComparison(data: DataPoint[], columnTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'>): boolean {
-    const numberColumns = Object.entries(columnTypes)
-      .filter(([_, type]) => type === 'number')
+  private detectNumericalComparison(dataStructure: DataStructure): boolean {
+    const numberColumns = Object.entries(dataStructure.columnTypes)
+      .filter(([col, type]) => type === 'number' && roleOf(dataStructure, col) !== 'identifier')
       .map(([col, _]) => col);
     
     return numberColumns.length >= 2;
   }
   
-  private detectGeographicData(data: DataPoint[], columnTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'>): boolean {
-    const geographicColumns = Object.keys(columnTypes).filter(col => 
+  private detectGeographicData(dataStructure: DataStructure): boolean {
+    const geographicColumns = Object.keys(dataStructure.columnTypes).filter(col => 
+      roleOf(dataStructure, col) === 'geo' ||
       col.toLowerCase().includes('region') || 
       col.toLowerCase().includes('country') ||
       col.toLowerCase().includes('state') ||
       col.toLowerCase().includes('city') ||
-      col.toLowerCase().includes('location')
+      col.toLowerCase().includes('location') ||
+      col.toLowerCase().includes('estado') ||
+      col.toLowerCase().includes('pais') ||
+      col.toLowerCase().includes('país') ||
+      col.toLowerCase() === 'uf' ||
+      ['lat', 'latitude', 'lng', 'lon', 'longitude'].includes(col.toLowerCase())
     );
     
     return geographicColumns.length > 0;
   }
-  
-  private getSuggestedChartTypes(context: {
-    dataStructure: DataStructure;
-    question: string;
-    hasCategory: boolean;
-    categoryUniqueCount: number;
-    hasTime: boolean;
-    hasTwoNumbers: boolean;
-    hasTwoCategories: boolean;
-  }): ChartType[] {
-    const { dataStructure, question, hasCategory, categoryUniqueCount, hasTime, hasTwoNumbers, hasTwoCategories } = context;
-    const suggestions: ChartType[] = [];
-
-    const asksGrowth = ['crescimento','growth','variação','evolução','aumento','queda','diferença','comparar mês','comparar mes']
-      .some(k => question.includes(k));
-    const asksTrend = ['tendência','tendencia','ao longo','timeline'].some(k => question.includes(k));
-    const asksDistribution = ['proporção','proporcao','distribuição','percentual','participação','participacao'].some(k => question.includes(k));
-    const asksRanking = ['top','ranking','maiores','menores','ordenar'].some(k => question.includes(k));
-    const asksCorrelation = ['correlação','correlacao','relação','relacao','impacto','influência','influencia'].some(k => question.includes(k));
-
-    // 0) Explicit multi-dimension comparison like "por produto e região"
-    if (hasTwoCategories) {
-      if (hasTime || asksTrend || asksGrowth) {
-        suggestions.push('line_chart'); // multi-série por categoria secundária
-      } else {
-        suggestions.push('bar_chart'); // barras agrupadas/empilhadas
-      }
-    }
-
-    // 1) Time series / growth
-    if (hasTime || asksGrowth || asksTrend) {
-      suggestions.push('line_chart', 'area_chart');
-    }
-
-    // 2) Distribution / proportions with few categories
-    if (hasCategory && categoryUniqueCount > 0 && categoryUniqueCount <= 6 && asksDistribution) {
-      suggestions.push('pie_chart');
-    }
-
-    // 3) Ranking
-    if (asksRanking && hasCategory) {
-      suggestions.push('horizontal_bar');
-    }
-
-    // 4) Correlation
-    if (hasTwoNumbers && asksCorrelation) {
-      suggestions.push('scatter_plot');
-    }
-
-    // 5) Generic categorical comparisons
-    if (hasCategory) {
-      if (categoryUniqueCount <= 6 && !asksTrend && !hasTime) {
-        suggestions.push('pie_chart', 'bar_chart');
-      } else {
-        suggestions.push('bar_chart');
-      }
-    }
-
-    // 6) Fallbacks
-    if (!hasCategory && hasTwoNumbers) suggestions.push('scatter_plot');
-    if (suggestions.length === 0) suggestions.push('table', 'bar_chart');
-
-    // Remove duplicates and return unique suggestions
-    return [...new Set(suggestions)];
-  }
-  
-  private createChartSuggestion(
-    chartType: ChartType, 
-    config: any, 
-    dataStructure: DataStructure,
-    originalQuestion?: string
-  ): ChartSuggestion {
-    const titles = {
-      'bar_chart': 'Gráfico de Barras',
-      'line_chart': 'Gráfico de Linha',
-      'pie_chart': 'Gráfico de Pizza',
-      'area_chart': 'Gráfico de Área',
-      'scatter_plot': 'Gráfico de Dispersão',
-      'horizontal_bar': 'Gráfico de Barras Horizontal',
-      'table': 'Tabela',
-      'map': 'Mapa'
-    };
-    
-    const descriptions = {
-      'bar_chart': 'Ideal para comparar valores entre categorias',
-      'line_chart': 'Perfeito para mostrar tendências ao longo do tempo',
-      'pie_chart': 'Ótimo para mostrar proporções de um todo',
-      'area_chart': 'Bom para mostrar volume e tendências',
-      'scatter_plot': 'Ideal para correlacionar duas variáveis numéricas',
-      'horizontal_bar': 'Bom para rankings e comparações',
-      'table': 'Apresenta todos os dados de forma organizada',
-      'map': 'Ideal para dados geográficos'
-    };
-    
-    const confidence = this.calculateConfidence(chartType, dataStructure, originalQuestion);
-    
-    return {
-      type: chartType,
-      title: titles[chartType] || chartType,
-      description: descriptions[chartType] || '',
-      confidence,
-      config,
-      reasoning: this.generateReasoning(chartType, dataStructure, originalQuestion)
-    };
-  }
-  
-  private calculateConfidence(chartType: ChartType, dataStructure: DataStructure, originalQuestion?: string): number {
-    let confidence = 0.5; // Base confidence
-    
-    const question = originalQuestion?.toLowerCase() || '';
-    const asksGrowth = question.includes('crescimento') || question.includes('growth') || question.includes('variação') || question.includes('evolução');
-    const asksRanking = question.includes('top') || question.includes('ranking') || question.includes('maiores') || question.includes('menores');
-
-    // Boost confidence based on data structure match
-    if (chartType === 'bar_chart' && dataStructure.hasCategories) confidence += 0.25;
-    if (chartType === 'line_chart' && dataStructure.hasTimeSeries) confidence += 0.35;
-    if (chartType === 'area_chart' && dataStructure.hasTimeSeries) confidence += 0.3;
-    if (chartType === 'pie_chart' && dataStructure.hasCategories) confidence += 0.2;
-    if (chartType === 'scatter_plot' && dataStructure.hasNumericalComparison) confidence += 0.3;
-    if (chartType === 'horizontal_bar' && dataStructure.hasCategories) confidence += 0.2;
-    
-    // Boost confidence based on question keywords
-    if (chartType === 'line_chart' && (question.includes('mês') || question.includes('month') || asksGrowth)) confidence += 0.25;
-    if (chartType === 'area_chart' && (question.includes('mês') || question.includes('month') || asksGrowth)) confidence += 0.2;
-    if (chartType === 'horizontal_bar' && asksRanking) confidence += 0.25;
-    if (chartType === 'pie_chart' && (question.includes('propor') || question.includes('percent'))) confidence += 0.2;
-    
-    return Math.min(confidence, 1.0);
-  }
-  
-  private generateReasoning(chartType: ChartType, dataStructure: DataStructure, originalQuestion?: string): string {
-    const question = originalQuestion?.toLowerCase() || '';
-    const asksGrowth = question.includes('crescimento') || question.includes('growth') || question.includes('variação') || question.includes('evolução');
-    
-    if (chartType === 'bar_chart') {
-      if (question.includes('região') || question.includes('region')) {
-        return 'Gráfico de barras é ideal para comparar vendas entre diferentes regiões';
-      }
-      return 'Gráfico de barras é perfeito para comparar valores entre categorias';
-    }
-    
-    if (chartType === 'line_chart') {
-      if (asksGrowth || question.includes('mês') || question.includes('month')) {
-        return 'Gráfico de linha evidencia crescimento e tendências entre meses';
-      }
-      return 'Gráfico de linha é ideal para mostrar tendências ao longo do tempo';
-    }
-    
-    if (chartType === 'area_chart') {
-      return 'Gráfico de área destaca volume acumulado e evolução temporal';
-    }
-    
-    if (chartType === 'pie_chart') {
-      return 'Gráfico de pizza mostra a proporção de cada categoria no total';
-    }
-    
-    if (chartType === 'horizontal_bar') {
-      return 'Gráfico de barras horizontal é ideal para rankings e comparações';
-    }
-    
-    if (chartType === 'scatter_plot') {
-      return 'Gráfico de dispersão ajuda a visualizar correlações entre variáveis numéricas';
-    }
-    
-    return 'Este tipo de visualização é adequado para os dados analisados';
-  }
 }
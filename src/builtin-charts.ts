@@ -0,0 +1,141 @@
+import { ChartContext, ChartPlugin, ChartType, ScoreFeature } from './types';
+import { generateChartConfig, hasMappableLocations } from './chart-generator';
+import { MessageKey, localized, mentions } from './i18n';
+
+const mentionsMonth = (context: ChartContext) => mentions(context.question, context.locale, 'month');
+const asksTimeSeries = (context: ChartContext) => context.hasTime || context.intents.growth || context.intents.trend || context.intents.forecast;
+const asksStateOrCountry = (context: ChartContext) => mentions(context.question, context.locale, 'stateOrCountry');
+
+// Built-in plugins share the generators in chart-generator.ts
+const generatorFor = (type: ChartType): ChartPlugin['generate'] =>
+  (data, dataStructure, options) => generateChartConfig(type, data, dataStructure, options);
+
+// Present-or-not evidence, explained by its `factor.<id>` message
+const feature = (id: string, present: boolean): ScoreFeature => ({
+  id,
+  strength: present ? 1 : 0,
+  reason: localized(`factor.${id}` as MessageKey),
+});
+
+const lineChart: ChartPlugin = {
+  type: 'line_chart',
+  title: localized('chart.line_chart.title'),
+  description: localized('chart.line_chart.description'),
+  temporal: true,
+  isApplicable: asksTimeSeries,
+  weights: { timeSeries: 0.35, timeQuestion: 0.25 },
+  features: ctx => [
+    feature('timeSeries', ctx.dataStructure.hasTimeSeries),
+    feature('timeQuestion', mentionsMonth(ctx) || ctx.intents.growth),
+  ],
+  generate: generatorFor('line_chart'),
+  reasoning: () => localized('reasoning.line_chart'),
+};
+
+const areaChart: ChartPlugin = {
+  type: 'area_chart',
+  title: localized('chart.area_chart.title'),
+  description: localized('chart.area_chart.description'),
+  temporal: true,
+  isApplicable: asksTimeSeries,
+  weights: { timeSeries: 0.3, timeQuestion: 0.2 },
+  features: ctx => [
+    feature('timeSeries', ctx.dataStructure.hasTimeSeries),
+    feature('timeQuestion', mentionsMonth(ctx) || ctx.intents.growth),
+  ],
+  generate: generatorFor('area_chart'),
+  reasoning: () => localized('reasoning.area_chart'),
+};
+
+const mapChart: ChartPlugin = {
+  type: 'map',
+  title: localized('chart.map.title'),
+  description: localized('chart.map.description'),
+  // Geographic breakdown ("por estado", "por país") of locations a map can actually place
+  isApplicable: ctx => ctx.dataStructure.hasGeographicData && ctx.intents.geographic && hasMappableLocations(ctx.data, ctx.dataStructure),
+  weights: { geographic: 0.2, stateOrCountry: 0.3 },
+  features: ctx => [
+    feature('geographic', ctx.dataStructure.hasGeographicData),
+    feature('stateOrCountry', asksStateOrCountry(ctx)),
+  ],
+  generate: generatorFor('map'),
+  reasoning: () => localized('reasoning.map'),
+};
+
+const pieChart: ChartPlugin = {
+  type: 'pie_chart',
+  title: localized('chart.pie_chart.title'),
+  description: localized('chart.pie_chart.description'),
+  // Proportions with few categories, or a small categorical comparison outside time series
+  isApplicable: ctx => ctx.hasCategory && ctx.categoryUniqueCount <= 6 && (
+    (ctx.categoryUniqueCount > 0 && ctx.intents.distribution) || (!ctx.intents.trend && !ctx.hasTime)
+  ),
+  weights: { categories: 0.2, proportion: 0.2 },
+  features: ctx => [
+    feature('categories', ctx.dataStructure.hasCategories),
+    feature('proportion', mentions(ctx.question, ctx.locale, 'proportion')),
+  ],
+  generate: generatorFor('pie_chart'),
+  reasoning: () => localized('reasoning.pie_chart'),
+};
+
+const horizontalBarChart: ChartPlugin = {
+  type: 'horizontal_bar',
+  title: localized('chart.horizontal_bar.title'),
+  description: localized('chart.horizontal_bar.description'),
+  isApplicable: ctx => ctx.intents.ranking && ctx.hasCategory,
+  weights: { categories: 0.2, ranking: 0.25 },
+  features: ctx => [
+    feature('categories', ctx.dataStructure.hasCategories),
+    feature('ranking', ctx.intents.ranking),
+  ],
+  generate: generatorFor('horizontal_bar'),
+  reasoning: () => localized('reasoning.horizontal_bar'),
+};
+
+const scatterPlot: ChartPlugin = {
+  type: 'scatter_plot',
+  title: localized('chart.scatter_plot.title'),
+  description: localized('chart.scatter_plot.description'),
+  // Asked correlation, or nothing categorical to compare
+  isApplicable: ctx => ctx.hasTwoNumbers && (ctx.intents.correlation || !ctx.hasCategory),
+  weights: { numericalComparison: 0.3 },
+  features: ctx => [feature('numericalComparison', ctx.dataStructure.hasNumericalComparison)],
+  generate: generatorFor('scatter_plot'),
+  reasoning: () => localized('reasoning.scatter_plot'),
+};
+
+const barChart: ChartPlugin = {
+  type: 'bar_chart',
+  title: localized('chart.bar_chart.title'),
+  description: localized('chart.bar_chart.description'),
+  fallback: true,
+  isApplicable: ctx => ctx.hasCategory,
+  weights: { categories: 0.25 },
+  features: ctx => [feature('categories', ctx.dataStructure.hasCategories)],
+  generate: generatorFor('bar_chart'),
+  reasoning: () => localized('reasoning.bar_chart'),
+};
+
+const table: ChartPlugin = {
+  type: 'table',
+  title: localized('chart.table.title'),
+  description: localized('chart.table.description'),
+  fallback: true,
+  isApplicable: () => false,
+  features: () => [],
+  generate: generatorFor('table'),
+  reasoning: () => localized('reasoning.default'),
+};
+
+// Registration order doubles as the tie-breaker between equal confidences
+export const builtInChartPlugins: ChartPlugin[] = [
+  lineChart,
+  areaChart,
+  mapChart,
+  pieChart,
+  horizontalBarChart,
+  scatterPlot,
+  barChart,
+  table,
+];
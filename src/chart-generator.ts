@@ -1,68 +1,107 @@
-import { ChartType, DataPoint, DataStructure, ChartConfig } from './types';
+import { AggregationFunction, ChartType, DataPoint, DataStructure, ChartConfig, ChartGenerationOptions, MapPoint, ScatterPoint, TableConfig, TableColumn, TableColumnFormat, ColumnType, TimeGranularity, SupportedLocale, Theme } from './types';
+import { matchGeoFeature, resolveBoundarySet } from './geo-boundaries';
+import { extent, linearRegression, pearson, spearman } from './statistics';
+import { buildTimeAxis, parseTemporal, sortChronologically } from './time';
+import { DEFAULT_LOCALE, MessageKey, t } from './i18n';
+import { aggregateValues } from './aggregation';
+import { DEFAULT_THEME, categoricalColors, sequentialColors, withAlpha } from './theme';
+import { isIdentifierColumn, isMeasureColumn, isTimeColumn, roleOf } from './schema';
 
+export function generateChartConfig(chartType: 'table', data: DataPoint[], dataStructure: DataStructure, options?: ChartGenerationOptions): TableConfig;
+export function generateChartConfig(chartType: Exclude<ChartType, 'table'>, data: DataPoint[], dataStructure: DataStructure, options?: ChartGenerationOptions): ChartConfig;
+export function generateChartConfig(chartType: ChartType, data: DataPoint[], dataStructure: DataStructure, options?: ChartGenerationOptions): ChartConfig | TableConfig;
 export function generateChartConfig(
   chartType: ChartType, 
   data: DataPoint[], 
-  dataStructure: DataStructure
-): ChartConfig {
+  dataStructure: DataStructure,
+  options: ChartGenerationOptions = {}
+): ChartConfig | TableConfig {
   switch (chartType) {
     case 'bar_chart':
-      return generateBarChartConfig(data, dataStructure);
+      return generateBarChartConfig(data, dataStructure, options);
     case 'line_chart':
-      return generateLineChartConfig(data, dataStructure);
+      return generateLineChartConfig(data, dataStructure, options);
     case 'pie_chart':
-      return generatePieChartConfig(data, dataStructure);
+      return generatePieChartConfig(data, dataStructure, options);
     case 'area_chart':
-      return generateAreaChartConfig(data, dataStructure);
+      return generateAreaChartConfig(data, dataStructure, options);
     case 'horizontal_bar':
-      return generateHorizontalBarChartConfig(data, dataStructure);
+      return generateHorizontalBarChartConfig(data, dataStructure, options);
     case 'scatter_plot':
-      return generateScatterPlotConfig(data, dataStructure);
+      return generateScatterPlotConfig(data, dataStructure, options);
     case 'table':
-      return generateTableConfig(data, dataStructure);
+      return generateTableConfig(data, dataStructure, { locale: options.locale, page: options.page, pageSize: options.pageSize });
+    case 'map':
+      return generateMapChartConfig(data, dataStructure, options);
     default:
-      return generateBarChartConfig(data, dataStructure);
+      return generateBarChartConfig(data, dataStructure, options);
   }
 }
 
+// Localized chart text for the generator's locale
+function text(options: { locale?: SupportedLocale }, key: MessageKey, params: Record<string, string | number> = {}): string {
+  return t(options.locale || DEFAULT_LOCALE, key, params);
+}
+
+function themeOf(options: ChartGenerationOptions): Theme {
+  return options.theme || DEFAULT_THEME;
+}
+
+function aggregationOf(options: ChartGenerationOptions): AggregationFunction {
+  return options.aggregation || 'sum';
+}
+
+// Measure name as shown in titles and tooltips ("média de ticket"); plain sums keep the column name
+function measureLabel(options: ChartGenerationOptions, valueColumn: string): string {
+  const aggregation = aggregationOf(options);
+  return aggregation === 'sum' ? valueColumn : text(options, `aggregation.${aggregation}`, { measure: valueColumn });
+}
+
 // Detect two categorical dimensions (e.g., product and region)
 function findTwoCategoryColumns(data: DataPoint[], dataStructure: DataStructure): string[] {
   const columns = Object.keys(data[0] || {});
   const catCols: string[] = [];
   for (const column of columns) {
     const type = dataStructure.columnTypes[column];
-    if (type === 'string') {
-      const unique = new Set(data.map(r => r[column]));
-      if (unique.size >= 2 && unique.size <= 20) catCols.push(column);
+    if (type === 'string' && roleOf(dataStructure, column) !== 'identifier') {
+      const unique = dataStructure.distinctCounts?.[column] ?? new Set(data.map(r => r[column])).size;
+      if (unique >= 2 && unique <= 20) catCols.push(column);
     }
   }
   return catCols.slice(0, 2);
 }
 
-function generateBarChartConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
+function generateBarChartConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
   const twoCats = findTwoCategoryColumns(data, dataStructure);
   const hasTwoCats = twoCats.length === 2;
 
-  if (hasTwoCats) {
+  if (hasTwoCats && !options.dimension) {
     // Grouped bars: labels from first category, datasets by second category
     const [catA, catB] = twoCats;
-    const valueColumn = findValueColumn(data, dataStructure);
+    const valueColumn = findValueColumn(data, dataStructure, options);
 
-    const categoriesA = Array.from(new Set(data.map(r => String(r[catA] ?? ''))));
-    const categoriesB = Array.from(new Set(data.map(r => String(r[catB] ?? ''))));
+    // One pass: raw values bucketed by (catA, catB)
+    const buckets = new Map<string, Map<string, unknown[]>>();
+    const categoriesB = new Set<string>();
+    for (const r of data) {
+      const a = String(r[catA] ?? '');
+      const b = String(r[catB] ?? '');
+      categoriesB.add(b);
+      if (!buckets.has(a)) buckets.set(a, new Map());
+      const cell = buckets.get(a)!;
+      if (!cell.has(b)) cell.set(b, []);
+      cell.get(b)!.push(r[valueColumn]);
+    }
+    const categoriesA = Array.from(buckets.keys());
+    const colors = categoricalColors(themeOf(options), categoriesB.size);
 
-    const datasets = categoriesB.map((b, idx) => {
-      const series = categoriesA.map(a => {
-        const sum = data
-          .filter(r => String(r[catA] ?? '') === a && String(r[catB] ?? '') === b)
-          .reduce((acc, r) => acc + Number(r[valueColumn] ?? 0), 0);
-        return sum;
-      });
+    const datasets = Array.from(categoriesB).map((b, idx) => {
+      const series = categoriesA.map(a => aggregateValues(buckets.get(a)!.get(b) || [], aggregationOf(options)));
       return {
         label: `${b}`,
         data: series,
-        backgroundColor: generateColors(categoriesB.length)[idx % categoriesB.length],
-        borderColor: '#ffffff',
+        backgroundColor: colors[idx],
+        borderColor: themeOf(options).colors.background,
         borderWidth: 1,
         stack: undefined
       };
@@ -74,10 +113,11 @@ function generateBarChartConfig(data: DataPoint[], dataStructure: DataStructure)
         labels: categoriesA,
         datasets
       },
+      meta: { encoding: { dimension: catA, measure: valueColumn, series: catB }, aggregation: aggregationOf(options) },
       options: {
         responsive: true,
         plugins: {
-          title: { display: true, text: `${valueColumn} por ${catA} e ${catB}` },
+          title: { display: true, text: text(options, 'title.byTwo', { measure: measureLabel(options, valueColumn), dimension: catA, series: catB }) },
           legend: { display: true }
         },
         scales: { y: { beginAtZero: true } }
@@ -85,30 +125,34 @@ function generateBarChartConfig(data: DataPoint[], dataStructure: DataStructure)
     };
   }
 
-  const categoryColumn = findCategoryColumn(data, dataStructure);
-  const valueColumn = findValueColumn(data, dataStructure);
+  const categoryColumn = findCategoryColumn(data, dataStructure, options);
+  const measures = findMeasureColumns(data, dataStructure, options, categoryColumn);
+  if (measures.length > 1) {
+    return generateMultiMeasureConfig('bar_chart', data, dataStructure, categoryColumn, measures, options);
+  }
+  const valueColumn = findValueColumn(data, dataStructure, options);
   
-  const { labels, values } = aggregateByCategory(data, categoryColumn, valueColumn);
-  const sorted = sortLabelsIfMonth(labels, values);
+  const sorted = aggregateByDimension(data, dataStructure, categoryColumn, valueColumn, options);
   
   return {
     type: 'bar_chart',
     data: {
       labels: sorted.labels,
       datasets: [{
-        label: valueColumn,
+        label: measureLabel(options, valueColumn),
         data: sorted.values,
-        backgroundColor: generateColors(sorted.values.length),
-        borderColor: '#3b82f6',
+        backgroundColor: categoricalColors(themeOf(options), sorted.values.length),
+        borderColor: themeOf(options).palette.categorical[0],
         borderWidth: 1
       }]
     },
+    meta: { encoding: { dimension: categoryColumn, measure: valueColumn }, aggregation: aggregationOf(options), time: sorted.time, topN: sorted.topN },
     options: {
       responsive: true,
       plugins: {
         title: {
           display: true,
-          text: `${valueColumn} por ${categoryColumn}`
+          text: text(options, 'title.by', { measure: measureLabel(options, valueColumn), dimension: categoryColumn })
         },
         legend: {
           display: true
@@ -123,29 +167,32 @@ function generateBarChartConfig(data: DataPoint[], dataStructure: DataStructure)
   };
 }
 
-function generateLineChartConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
+function generateLineChartConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
   // If there are two categories including a time-like, create multi-series by the secondary category
   const timeCol = findTimeLikeColumn(data, dataStructure);
   const twoCats = findTwoCategoryColumns(data, dataStructure);
-  const valueColumn = findValueColumn(data, dataStructure);
+  const valueColumn = findValueColumn(data, dataStructure, options);
 
-  if (timeCol) {
+  if (timeCol && (!options.dimension || options.dimension === timeCol)) {
     const otherCat = twoCats.find(c => c !== timeCol);
-    const labels = Array.from(new Set(data.map(r => String(r[timeCol] ?? ''))));
 
     if (otherCat) {
+      const axis = timeAxisFor(data, timeCol, options);
       const seriesCats = Array.from(new Set(data.map(r => String(r[otherCat] ?? ''))));
+      const empty = options.gapFill === 'null' ? null : 0;
+      const bucketsByCat = new Map(seriesCats.map(c => [c, axis.labels.map(() => [] as unknown[])]));
+      for (const row of data) {
+        const i = axis.bucketOf(row[timeCol]);
+        if (i < 0) continue;
+        bucketsByCat.get(String(row[otherCat] ?? ''))![i].push(row[valueColumn]);
+      }
+      const colors = categoricalColors(themeOf(options), seriesCats.length);
       const datasets = seriesCats.map((c, idx) => {
-        const series = labels.map(label => {
-          const sum = data
-            .filter(r => String(r[timeCol] ?? '') === label && String(r[otherCat] ?? '') === c)
-            .reduce((acc, r) => acc + Number(r[valueColumn] ?? 0), 0);
-          return sum;
-        });
+        const series = bucketsByCat.get(c)!.map(bucket => bucket.length ? aggregateValues(bucket, aggregationOf(options)) : empty);
         return {
           label: c,
           data: series,
-          borderColor: generateColors(seriesCats.length)[idx % seriesCats.length],
+          borderColor: colors[idx],
           backgroundColor: 'transparent',
           borderWidth: 2,
           fill: false,
@@ -153,45 +200,50 @@ function generateLineChartConfig(data: DataPoint[], dataStructure: DataStructure
         };
       });
 
-      const sorted = sortLabelsIfMonth(labels, datasets[0]?.data || []);
-
       return {
         type: 'line_chart',
-        data: { labels: sorted.labels, datasets },
+        data: { labels: axis.labels, datasets },
+        meta: { encoding: { dimension: timeCol, measure: valueColumn, series: otherCat }, aggregation: aggregationOf(options), time: axis.time },
         options: {
           responsive: true,
-          plugins: { title: { display: true, text: `${valueColumn} por ${otherCat} ao longo do tempo` }, legend: { display: true } },
+          plugins: { title: { display: true, text: text(options, 'title.bySeriesOverTime', { measure: measureLabel(options, valueColumn), series: otherCat }) }, legend: { display: true } },
           scales: { y: { beginAtZero: true } }
         }
       };
     }
   }
 
+  // One dataset per measure when the result has several
+  const categoryColumn = findCategoryColumn(data, dataStructure, options);
+  const measures = findMeasureColumns(data, dataStructure, options, categoryColumn);
+  if (measures.length > 1) {
+    return generateMultiMeasureConfig('line_chart', data, dataStructure, categoryColumn, measures, options);
+  }
+
   // Default single-series
-  const categoryColumn = findCategoryColumn(data, dataStructure);
-  const { labels, values } = aggregateByCategory(data, categoryColumn, valueColumn);
-  const sorted = sortLabelsIfMonth(labels, values);
+  const sorted = aggregateByDimension(data, dataStructure, categoryColumn, valueColumn, options);
   
   return {
     type: 'line_chart',
     data: {
       labels: sorted.labels,
       datasets: [{
-        label: valueColumn,
+        label: measureLabel(options, valueColumn),
         data: sorted.values,
-        borderColor: '#3b82f6',
-        backgroundColor: 'rgba(59, 130, 246, 0.1)',
+        borderColor: themeOf(options).palette.categorical[0],
+        backgroundColor: withAlpha(themeOf(options).palette.categorical[0], 0.1),
         borderWidth: 2,
         fill: true,
         tension: 0.1
       }]
     },
+    meta: { encoding: { dimension: categoryColumn, measure: valueColumn }, aggregation: aggregationOf(options), time: sorted.time, topN: sorted.topN },
     options: {
       responsive: true,
       plugins: {
         title: {
           display: true,
-          text: `${valueColumn} ao longo do tempo`
+          text: text(options, 'title.overTime', { measure: measureLabel(options, valueColumn) })
         },
         legend: { display: true }
       },
@@ -200,59 +252,131 @@ function generateLineChartConfig(data: DataPoint[], dataStructure: DataStructure
   };
 }
 
-function generatePieChartConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
-  const categoryColumn = findCategoryColumn(data, dataStructure);
-  const valueColumn = findValueColumn(data, dataStructure);
+// Measures an order of magnitude smaller than the largest one move to the secondary axis
+const SECONDARY_AXIS_RATIO = 10;
+
+// One dataset per measure over a shared dimension. Bar charts become combos: measures on the
+// secondary axis are drawn as lines, the same y1 axis used by the growth enrichment.
+function generateMultiMeasureConfig(
+  type: 'bar_chart' | 'line_chart',
+  data: DataPoint[],
+  dataStructure: DataStructure,
+  categoryColumn: string,
+  measures: string[],
+  options: ChartGenerationOptions
+): ChartConfig {
+  const primary = aggregateByDimension(data, dataStructure, categoryColumn, measures[0], options);
+  const series = measures.map((measure, i) => i === 0 ? primary.values : alignMeasure(data, dataStructure, categoryColumn, measure, primary, options));
+
+  const peaks = series.map(values => Math.max(0, ...values.map(v => Math.abs(v ?? 0))));
+  const top = Math.max(...peaks);
+  const secondary = peaks.map(peak => peak > 0 && top / peak >= SECONDARY_AXIS_RATIO);
+  const colors = categoricalColors(themeOf(options), measures.length);
+
+  const datasets = measures.map((measure, i) => {
+    const axis = secondary[i] ? 'y1' : 'y';
+    if (type === 'bar_chart' && !secondary[i]) {
+      return { label: measureLabel(options, measure), data: series[i], yAxisID: axis, backgroundColor: colors[i], borderColor: colors[i], borderWidth: 1 };
+    }
+    return {
+      ...(type === 'bar_chart' ? { type: 'line' } : {}),
+      label: measureLabel(options, measure),
+      data: series[i],
+      yAxisID: axis,
+      borderColor: colors[i],
+      backgroundColor: colors[i],
+      borderWidth: 2,
+      fill: false,
+      tension: 0.1
+    };
+  });
+
+  const scales: any = { y: { beginAtZero: true } };
+  if (secondary.some(Boolean)) {
+    scales.y1 = { type: 'linear', position: 'right', beginAtZero: true, grid: { drawOnChartArea: false } };
+  }
+  const measureList = measures.map(m => measureLabel(options, m)).join(', ');
+
+  return {
+    type,
+    data: { labels: primary.labels, datasets },
+    meta: {
+      encoding: { dimension: categoryColumn, measure: measures[0], measures },
+      aggregation: aggregationOf(options),
+      secondaryAxis: measures.filter((_, i) => secondary[i]),
+      time: primary.time,
+      topN: primary.topN
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        title: {
+          display: true,
+          text: type === 'bar_chart'
+            ? text(options, 'title.by', { measure: measureList, dimension: categoryColumn })
+            : text(options, 'title.overTime', { measure: measureList })
+        },
+        legend: { display: true }
+      },
+      scales
+    }
+  };
+}
+
+function generatePieChartConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
+  const categoryColumn = findCategoryColumn(data, dataStructure, options);
+  const valueColumn = findValueColumn(data, dataStructure, options);
   
-  const { labels, values } = aggregateByCategory(data, categoryColumn, valueColumn);
+  const { labels, values, topN } = rankByCategory(data, categoryColumn, valueColumn, options);
   
   return {
     type: 'pie_chart',
     data: {
       labels,
       datasets: [{
-        label: valueColumn,
+        label: measureLabel(options, valueColumn),
         data: values,
-        backgroundColor: generateColors(values.length),
-        borderColor: '#ffffff',
+        backgroundColor: categoricalColors(themeOf(options), values.length),
+        borderColor: themeOf(options).colors.background,
         borderWidth: 2
       }]
     },
+    meta: { encoding: { dimension: categoryColumn, measure: valueColumn }, aggregation: aggregationOf(options), topN },
     options: {
       responsive: true,
       plugins: {
-        title: { display: true, text: `Distribuição de ${valueColumn}` },
+        title: { display: true, text: text(options, 'title.distribution', { measure: measureLabel(options, valueColumn) }) },
         legend: { display: true }
       }
     }
   };
 }
 
-function generateAreaChartConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
-  const categoryColumn = findCategoryColumn(data, dataStructure);
-  const valueColumn = findValueColumn(data, dataStructure);
+function generateAreaChartConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
+  const categoryColumn = findCategoryColumn(data, dataStructure, options);
+  const valueColumn = findValueColumn(data, dataStructure, options);
   
-  const { labels, values } = aggregateByCategory(data, categoryColumn, valueColumn);
-  const sorted = sortLabelsIfMonth(labels, values);
+  const sorted = aggregateByDimension(data, dataStructure, categoryColumn, valueColumn, options);
   
   return {
     type: 'area_chart',
     data: {
       labels: sorted.labels,
       datasets: [{
-        label: valueColumn,
+        label: measureLabel(options, valueColumn),
         data: sorted.values,
-        borderColor: '#10b981',
-        backgroundColor: 'rgba(16, 185, 129, 0.3)',
+        borderColor: themeOf(options).palette.categorical[0],
+        backgroundColor: withAlpha(themeOf(options).palette.categorical[0], 0.3),
         borderWidth: 2,
         fill: true,
         tension: 0.1
       }]
     },
+    meta: { encoding: { dimension: categoryColumn, measure: valueColumn }, aggregation: aggregationOf(options), time: sorted.time, topN: sorted.topN },
     options: {
       responsive: true,
       plugins: {
-        title: { display: true, text: `${valueColumn} - Volume ao longo do tempo` },
+        title: { display: true, text: text(options, 'title.volumeOverTime', { measure: measureLabel(options, valueColumn) }) },
         legend: { display: true }
       },
       scales: { y: { beginAtZero: true } }
@@ -260,28 +384,30 @@ function generateAreaChartConfig(data: DataPoint[], dataStructure: DataStructure
   };
 }
 
-function generateHorizontalBarChartConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
-  const categoryColumn = findCategoryColumn(data, dataStructure);
-  const valueColumn = findValueColumn(data, dataStructure);
+function generateHorizontalBarChartConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
+  const categoryColumn = findCategoryColumn(data, dataStructure, options);
+  const valueColumn = findValueColumn(data, dataStructure, options);
   
-  const { labels, values } = aggregateByCategory(data, categoryColumn, valueColumn);
+  // Rankings always keep the top N (default 10) and fold the rest
+  const { labels, values, topN } = rankByCategory(data, categoryColumn, valueColumn, options, true);
   
   return {
     type: 'horizontal_bar',
     data: {
       labels,
       datasets: [{
-        label: valueColumn,
+        label: measureLabel(options, valueColumn),
         data: values,
-        backgroundColor: generateColors(values.length),
-        borderColor: '#3b82f6',
+        backgroundColor: categoricalColors(themeOf(options), values.length),
+        borderColor: themeOf(options).palette.categorical[0],
         borderWidth: 1
       }]
     },
+    meta: { encoding: { dimension: categoryColumn, measure: valueColumn }, aggregation: aggregationOf(options), topN },
     options: {
       responsive: true,
       plugins: {
-        title: { display: true, text: `${valueColumn} por ${categoryColumn}` },
+        title: { display: true, text: text(options, 'title.by', { measure: measureLabel(options, valueColumn), dimension: categoryColumn }) },
         legend: { display: true }
       },
       scales: { y: { beginAtZero: true } }
@@ -289,9 +415,105 @@ function generateHorizontalBarChartConfig(data: DataPoint[], dataStructure: Data
   };
 }
 
-function generateScatterPlotConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
-  const categoryColumn = findCategoryColumn(data, dataStructure);
-  const valueColumn = findValueColumn(data, dataStructure);
+function generateScatterPlotConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
+  const numeric = Object.keys(data[0] || {}).filter(c => isMeasureColumn(c, dataStructure) && !isIdentifierColumn(c, dataStructure));
+  const xColumn = options.dimension && numeric.includes(options.dimension) ? options.dimension : numeric[0];
+  const yColumn = options.measure && options.measure !== xColumn ? options.measure : numeric.find(c => c !== xColumn);
+
+  // Not enough measures for x/y: plot the value against the category labels
+  if (!xColumn || !yColumn) {
+    return generateLabelledScatterConfig(data, dataStructure, options);
+  }
+
+  // Optional third column: a small categorical column colors the groups, another measure sizes the bubbles
+  const groupColumn = findTwoCategoryColumns(data, dataStructure)[0];
+  const sizeColumn = groupColumn ? undefined : numeric.find(c => c !== xColumn && c !== yColumn);
+
+  const rows = data.filter(r => Number.isFinite(Number(r[xColumn])) && Number.isFinite(Number(r[yColumn])));
+  const xs = rows.map(r => Number(r[xColumn]));
+  const ys = rows.map(r => Number(r[yColumn]));
+
+  const sizes = sizeColumn ? rows.map(r => Number(r[sizeColumn] ?? 0)) : [];
+  const [minSize, maxSize] = sizes.length ? extent(sizes) : [0, 0];
+  const toPoint = (r: DataPoint): ScatterPoint => {
+    const point: ScatterPoint = { x: Number(r[xColumn]), y: Number(r[yColumn]) };
+    if (sizeColumn) {
+      const t = maxSize === minSize ? 0.5 : (Number(r[sizeColumn] ?? 0) - minSize) / (maxSize - minSize);
+      point.r = Number((4 + t * 16).toFixed(1));
+    }
+    return point;
+  };
+
+  const rowsByGroup = new Map<string, DataPoint[]>();
+  for (const r of rows) {
+    const group = groupColumn ? String(r[groupColumn] ?? '') : yColumn;
+    if (!rowsByGroup.has(group)) rowsByGroup.set(group, []);
+    rowsByGroup.get(group)!.push(r);
+  }
+  const groups = groupColumn ? Array.from(rowsByGroup.keys()) : [yColumn];
+  const colors = categoricalColors(themeOf(options), groups.length);
+  const datasets: ChartConfig['data']['datasets'] = groups.map((group, idx) => ({
+    label: group,
+    data: (rowsByGroup.get(group) || []).map(toPoint),
+    backgroundColor: colors[idx],
+    borderColor: colors[idx],
+    borderWidth: 1
+  }));
+
+  // Least-squares trend line across all points
+  const { slope, intercept, r2 } = linearRegression(xs, ys);
+  if (xs.length >= 2) {
+    const [minX, maxX] = extent(xs);
+    datasets.push({
+      label: text(options, 'label.trendLine'),
+      type: 'line',
+      data: [
+        { x: minX, y: Number((intercept + slope * minX).toFixed(4)) },
+        { x: maxX, y: Number((intercept + slope * maxX).toFixed(4)) }
+      ],
+      borderColor: themeOf(options).colors.reference,
+      borderWidth: 2,
+      borderDash: [6, 4],
+      pointRadius: 0,
+      fill: false
+    });
+  }
+
+  const round = (v: number | null) => (v === null ? null : Number(v.toFixed(4)));
+
+  return {
+    type: 'scatter_plot',
+    data: { labels: [], datasets },
+    meta: {
+      encoding: { dimension: xColumn, measure: yColumn, series: groupColumn, size: sizeColumn },
+      correlation: {
+        x: xColumn,
+        y: yColumn,
+        n: xs.length,
+        pearson: round(pearson(xs, ys)),
+        spearman: round(spearman(xs, ys)),
+        slope: round(slope),
+        intercept: round(intercept),
+        r2: round(r2)
+      }
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        title: { display: true, text: text(options, 'title.versus', { y: yColumn, x: xColumn }) },
+        legend: { display: true }
+      },
+      scales: {
+        x: { type: 'linear', title: { display: true, text: xColumn } },
+        y: { title: { display: true, text: yColumn } }
+      }
+    }
+  };
+}
+
+function generateLabelledScatterConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
+  const categoryColumn = findCategoryColumn(data, dataStructure, options);
+  const valueColumn = findValueColumn(data, dataStructure, options);
   
   const labels = data.map(row => String(row[categoryColumn] || ''));
   const values = data.map(row => Number(row[valueColumn] || 0));
@@ -303,15 +525,16 @@ function generateScatterPlotConfig(data: DataPoint[], dataStructure: DataStructu
       datasets: [{
         label: valueColumn,
         data: values,
-        backgroundColor: generateColors(values.length),
-        borderColor: '#3b82f6',
+        backgroundColor: categoricalColors(themeOf(options), values.length),
+        borderColor: themeOf(options).palette.categorical[0],
         borderWidth: 1
       }]
     },
+    meta: { encoding: { dimension: categoryColumn, measure: valueColumn } },
     options: {
       responsive: true,
       plugins: {
-        title: { display: true, text: `${valueColumn} vs ${categoryColumn}` },
+        title: { display: true, text: text(options, 'title.versus', { y: valueColumn, x: categoryColumn }) },
         legend: { display: true }
       },
       scales: { y: { beginAtZero: true } }
@@ -319,33 +542,245 @@ function generateScatterPlotConfig(data: DataPoint[], dataStructure: DataStructu
   };
 }
 
-function generateTableConfig(data: DataPoint[], dataStructure: DataStructure): ChartConfig {
-  const columns = Object.keys(data[0] || {});
-  
+export const DEFAULT_TABLE_PAGE_SIZE = 50;
+
+export function generateTableConfig(
+  data: DataPoint[],
+  dataStructure: DataStructure,
+  options: { page?: number; pageSize?: number; locale?: SupportedLocale } = {}
+): TableConfig {
+  const keys = Object.keys(data[0] || {});
+  const columns: TableColumn[] = keys.map(key => {
+    const type: ColumnType = dataStructure.columnTypes[key] || 'string';
+    return {
+      key,
+      label: key,
+      type,
+      align: type === 'number' ? 'right' : type === 'boolean' ? 'center' : 'left',
+      format: tableColumnFormat(data, key, type, dataStructure),
+      sortable: true
+    };
+  });
+
+  // Default sort: chronological when there is a date column, otherwise biggest values first
+  const dateColumn = columns.find(c => c.type === 'date');
+  const numberColumn = columns.find(c => c.type === 'number' && !isIdentifierColumn(c.key, dataStructure));
+  const sort = dateColumn
+    ? { column: dateColumn.key, direction: 'asc' as const }
+    : numberColumn
+      ? { column: numberColumn.key, direction: 'desc' as const }
+      : null;
+
+  const rows = sort ? sortRows(data, sort.column, sort.direction, dataStructure.columnTypes[sort.column]) : data.slice();
+
+  const pageSize = Math.max(1, options.pageSize || DEFAULT_TABLE_PAGE_SIZE);
+  const totalPages = Math.max(1, Math.ceil(rows.length / pageSize));
+  const page = Math.min(Math.max(1, options.page || 1), totalPages);
+
   return {
     type: 'table',
+    columns,
+    rows: rows.slice((page - 1) * pageSize, page * pageSize),
+    sort,
+    totals: computeTableTotals(data, columns, dataStructure, text(options, 'label.total')),
+    pagination: { mode: 'server', page, pageSize, totalRows: rows.length, totalPages },
+    options: { responsive: true, plugins: { title: { display: true, text: text(options, 'title.table') }, legend: { display: false } } }
+  };
+}
+
+function tableColumnFormat(data: DataPoint[], column: string, type: ColumnType, dataStructure: DataStructure): TableColumnFormat {
+  if (type === 'number') {
+    // Keep the precision present in the data, capped at 2 decimals
+    let decimals = 0;
+    for (const row of data) {
+      const [, fraction = ''] = String(row[column] ?? '').split('.');
+      decimals = Math.max(decimals, Math.min(fraction.length, 2));
+      if (decimals === 2) break;
+    }
+    const role = roleOf(dataStructure, column);
+    const format: TableColumnFormat = { kind: 'number', decimals, thousandsSeparator: !isIdentifierColumn(column, dataStructure) };
+    if (role === 'currency' || role === 'percent') format.style = role;
+    return format;
+  }
+  if (type === 'date') return { kind: 'date', pattern: 'dd/MM/yyyy' };
+  if (type === 'boolean') return { kind: 'boolean' };
+  return { kind: 'text' };
+}
+
+function sortRows(data: DataPoint[], column: string, direction: 'asc' | 'desc', type: ColumnType): DataPoint[] {
+  const key = (row: DataPoint): number | string => {
+    const value = row[column];
+    if (type === 'number') return Number(value ?? 0);
+    if (type === 'date') {
+      const parsed = parseTemporal(value);
+      return parsed ? parsed.date.getTime() : String(value ?? '');
+    }
+    return String(value ?? '');
+  };
+  const factor = direction === 'asc' ? 1 : -1;
+  return data.slice().sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (typeof ka === 'number' && typeof kb === 'number') return (ka - kb) * factor;
+    return String(ka).localeCompare(String(kb)) * factor;
+  });
+}
+
+function computeTableTotals(
+  data: DataPoint[],
+  columns: TableColumn[],
+  dataStructure: DataStructure,
+  totalLabel: string
+): Record<string, number | string | null> | null {
+  const summable = columns.filter(c => c.type === 'number' && !isIdentifierColumn(c.key, dataStructure));
+  if (summable.length === 0 || data.length === 0) return null;
+
+  const totals: Record<string, number | string | null> = {};
+  for (const column of columns) totals[column.key] = null;
+  for (const column of summable) {
+    const sum = data.reduce((acc, row) => acc + Number(row[column.key] ?? 0), 0);
+    totals[column.key] = Number(sum.toFixed(column.format.decimals ?? 2));
+  }
+  const labelColumn = columns.find(c => c.type !== 'number');
+  if (labelColumn) totals[labelColumn.key] = totalLabel;
+  return totals;
+}
+
+// Whether a map would place anything: rows with coordinates, or a geographic column with at
+// least one value the bundled boundary sets know
+export function hasMappableLocations(data: DataPoint[], dataStructure: DataStructure): boolean {
+  if (findLatLngColumns(data)) return true;
+  const geoColumn = findGeoColumn(data, dataStructure);
+  if (!geoColumn) return false;
+  const labels = new Set<string>();
+  for (const row of data) {
+    if (row[geoColumn] !== null && row[geoColumn] !== undefined) labels.add(String(row[geoColumn]));
+  }
+  return resolveBoundarySet(Array.from(labels)) !== null;
+}
+
+export function generateMapChartConfig(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): ChartConfig {
+  const coords = findLatLngColumns(data);
+  const valueColumn = options.measure || (coords
+    ? Object.keys(data[0] || {}).find(c => isMeasureColumn(c, dataStructure) && c !== coords.lat && c !== coords.lng) || ''
+    : findValueColumn(data, dataStructure, options));
+
+  // Point map when the rows carry their own coordinates
+  if (coords) {
+    const labelColumn = options.dimension || findGeoColumn(data, dataStructure) || findCategoryColumn(data, dataStructure, options);
+    const points: MapPoint[] = data
+      .map(row => ({
+        label: String(row[labelColumn] ?? ''),
+        lat: Number(row[coords.lat]),
+        lng: Number(row[coords.lng]),
+        value: valueColumn ? Number(row[valueColumn] ?? 0) : 1,
+      }))
+      .filter(p => Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180);
+    const values = points.map(p => p.value);
+
+    return {
+      type: 'map',
+      data: {
+        labels: points.map(p => p.label),
+        datasets: [{
+          label: valueColumn,
+          data: values,
+          backgroundColor: generateSequentialColors(values, themeOf(options)),
+          borderColor: themeOf(options).palette.sequential[1],
+          borderWidth: 1
+        }]
+      },
+      geo: { mode: 'points', points, unmatched: [] },
+      meta: { encoding: { dimension: labelColumn, measure: valueColumn } },
+      options: {
+        responsive: true,
+        plugins: {
+          title: { display: true, text: text(options, 'title.byLocation', { measure: valueColumn }) },
+          legend: { display: false }
+        }
+      }
+    };
+  }
+
+  // Choropleth: aggregate by the geographic column and join with the bundled boundaries
+  const geoColumn = options.dimension || findGeoColumn(data, dataStructure) || findCategoryColumn(data, dataStructure, options);
+  const { labels, values } = aggregateByCategory(data, geoColumn, valueColumn, aggregationOf(options));
+  const resolved = resolveBoundarySet(labels);
+  const features = labels.map(label => {
+    const feature = resolved ? matchGeoFeature(resolved.set, label) : null;
+    return feature
+      ? { label, featureId: feature.id, name: feature.name, centroid: feature.centroid }
+      : { label, featureId: null };
+  });
+
+  return {
+    type: 'map',
     data: {
-      labels: columns,
-      datasets: [{ label: 'Dados', data: data.map((_, index) => index) }]
+      labels,
+      datasets: [{
+        label: measureLabel(options, valueColumn),
+        data: values,
+        backgroundColor: generateSequentialColors(values, themeOf(options)),
+        borderColor: themeOf(options).colors.background,
+        borderWidth: 1
+      }]
     },
-    options: { responsive: true, plugins: { title: { display: true, text: 'Tabela de Dados' }, legend: { display: false } } }
+    geo: {
+      mode: 'choropleth',
+      boundary: resolved?.set.id,
+      features,
+      unmatched: features.filter(f => f.featureId === null).map(f => f.label)
+    },
+    meta: { encoding: { dimension: geoColumn, measure: valueColumn }, aggregation: aggregationOf(options) },
+    options: {
+      responsive: true,
+      plugins: {
+        title: { display: true, text: text(options, 'title.by', { measure: measureLabel(options, valueColumn), dimension: geoColumn }) },
+        legend: { display: false }
+      }
+    }
   };
 }
 
-function findCategoryColumn(data: DataPoint[], dataStructure: DataStructure): string {
+const GEO_COLUMN_HINTS = ['region', 'regiao', 'região', 'country', 'pais', 'país', 'state', 'estado', 'uf', 'city', 'cidade', 'location', 'local'];
+
+function findGeoColumn(data: DataPoint[], dataStructure: DataStructure): string | null {
+  const columns = Object.keys(data[0] || {});
+  const declared = columns.find(c => roleOf(dataStructure, c) === 'geo');
+  if (declared) return declared;
+  for (const column of columns) {
+    const lower = column.toLowerCase();
+    const role = roleOf(dataStructure, column);
+    if ((!role || role === 'dimension') && dataStructure.columnTypes[column] !== 'number' && GEO_COLUMN_HINTS.some(h => lower === h || lower.includes(h))) {
+      return column;
+    }
+  }
+  return null;
+}
+
+function findLatLngColumns(data: DataPoint[]): { lat: string; lng: string } | null {
+  const columns = Object.keys(data[0] || {});
+  const lat = columns.find(c => ['lat', 'latitude'].includes(c.toLowerCase()));
+  const lng = columns.find(c => ['lng', 'lon', 'long', 'longitude'].includes(c.toLowerCase()));
+  return lat && lng ? { lat, lng } : null;
+}
+
+function findCategoryColumn(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): string {
+  if (options.dimension) return options.dimension;
   const columns = Object.keys(data[0] || {});
 
   // Prefer time-related columns first (dates or columns containing month/date/time)
   for (const column of columns) {
-    const lower = column.toLowerCase();
-    if (dataStructure.columnTypes[column] === 'date' || lower.includes('month') || lower.includes('date') || lower.includes('time')) {
+    if (isTimeColumn(column, dataStructure)) {
       return column;
     }
   }
   
-  // Then look for string columns
+  // Then declared dimensions, then string columns
+  const declared = columns.find(c => ['dimension', 'geo'].includes(roleOf(dataStructure, c) || ''));
+  if (declared) return declared;
   for (const column of columns) {
-    if (dataStructure.columnTypes[column] === 'string') {
+    if (dataStructure.columnTypes[column] === 'string' && roleOf(dataStructure, column) !== 'identifier') {
       return column;
     }
   }
@@ -357,71 +792,184 @@ function findCategoryColumn(data: DataPoint[], dataStructure: DataStructure): st
 function findTimeLikeColumn(data: DataPoint[], dataStructure: DataStructure): string | null {
   const columns = Object.keys(data[0] || {});
   for (const column of columns) {
-    const lower = column.toLowerCase();
-    if (dataStructure.columnTypes[column] === 'date' || lower.includes('month') || lower.includes('date') || lower.includes('time')) {
+    if (isTimeColumn(column, dataStructure)) {
       return column;
     }
   }
   return null;
 }
 
-function findValueColumn(data: DataPoint[], dataStructure: DataStructure): string {
+function findValueColumn(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions = {}): string {
+  if (options.measure) return options.measure;
   const columns = Object.keys(data[0] || {});
   
-  // Look for number columns first
-  for (const column of columns) {
-    if (dataStructure.columnTypes[column] === 'number') {
-      return column;
-    }
-  }
+  // Declared measures first, then number columns that are not identifiers
+  const declared = columns.find(c => ['measure', 'currency', 'percent'].includes(roleOf(dataStructure, c) || ''));
+  if (declared) return declared;
+  const measure = columns.find(c => isMeasureColumn(c, dataStructure) && !isIdentifierColumn(c, dataStructure))
+    || columns.find(c => isMeasureColumn(c, dataStructure));
+  if (measure) return measure;
   
   // Default to second column or first if only one exists
   return columns[1] || columns[0] || '';
 }
 
-function generateColors(count: number): string[] {
-  const colors = [
-    '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6',
-    '#06b6d4', '#84cc16', '#f97316', '#ec4899', '#6366f1'
-  ];
-  
-  const result: string[] = [];
-  for (let i = 0; i < count; i++) {
-    result.push(colors[i % colors.length]);
-  }
-  
-  return result;
+// Measures to plot side by side: explicit list, a pinned measure, or every numeric non-id column
+function findMeasureColumns(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions, dimension: string): string[] {
+  if (options.measures?.length) return options.measures;
+  if (options.measure) return [options.measure];
+  const coords = findLatLngColumns(data);
+  return Object.keys(data[0] || {})
+    .filter(c => c !== dimension && c !== coords?.lat && c !== coords?.lng)
+    .filter(c => isMeasureColumn(c, dataStructure) && !isIdentifierColumn(c, dataStructure))
+    .slice(0, MAX_MEASURES);
 }
 
-function aggregateByCategory(data: DataPoint[], categoryColumn: string, valueColumn: string): { labels: string[]; values: number[] } {
-  const totals = new Map<string, number>();
+const MAX_MEASURES = 5;
+
+// The theme's sequential ramp, proportional to each value (choropleth fill)
+function generateSequentialColors(values: number[], theme: Theme): string[] {
+  const finite = values.filter(v => Number.isFinite(v));
+  const [min, max] = finite.length ? extent(finite) : [0, 0];
+  return sequentialColors(theme, values, min, max);
+}
+
+// Raw values of each category, in first-seen order
+function groupByCategory(data: DataPoint[], categoryColumn: string, valueColumn: string): Map<string, unknown[]> {
+  const groups = new Map<string, unknown[]>();
   for (const row of data) {
     const key = String(row[categoryColumn] ?? '');
-    const value = Number(row[valueColumn] ?? 0);
-    totals.set(key, (totals.get(key) || 0) + value);
+    const group = groups.get(key);
+    if (group) group.push(row[valueColumn]);
+    else groups.set(key, [row[valueColumn]]);
   }
-  const labels = Array.from(totals.keys());
-  const values = labels.map(label => totals.get(label) || 0);
+  return groups;
+}
+
+function aggregateByCategory(
+  data: DataPoint[],
+  categoryColumn: string,
+  valueColumn: string,
+  aggregation: AggregationFunction = 'sum'
+): { labels: string[]; values: number[] } {
+  const groups = groupByCategory(data, categoryColumn, valueColumn);
+  const labels = Array.from(groups.keys());
+  const values = labels.map(label => aggregateValues(groups.get(label)!, aggregation));
   return { labels, values };
 }
 
-function sortLabelsIfMonth(labels: string[], values: number[]): { labels: string[]; values: number[] } {
-  const monthOrder = ['january','february','march','april','may','june','july','august','september','october','november','december','jan','feb','mar','apr'];
-  const monthOrderPt = ['janeiro','fevereiro','março','abril','maio','junho','julho','agosto','setembro','outubro','novembro','dezembro'];
-  const idx = (name: string) => {
-    const lower = name.toLowerCase();
-    let i = monthOrderPt.indexOf(lower);
-    if (i !== -1) return i;
-    i = monthOrder.indexOf(lower);
-    if (i !== -1) return i;
-    return 999; // non-months at end
-  };
-  const indices = labels.map((l, i) => ({ i, order: idx(l) }));
-  if (indices.every(x => x.order === 999)) {
-    return { labels, values };
+export const DEFAULT_TOP_N = 10;
+// Beyond this many categories a bar or pie chart is folded even when no N was asked for
+const MAX_READABLE_CATEGORIES = 20;
+
+interface TopNFold {
+  limit: number;
+  // Categories merged into the "Outros" bucket
+  folded: number;
+}
+
+// Sort by value, keep the top N and fold the rest into "Outros". The bucket re-aggregates the
+// folded rows, so averages and medians stay correct. Unranked when no N applies.
+function rankByCategory(
+  data: DataPoint[],
+  categoryColumn: string,
+  valueColumn: string,
+  options: ChartGenerationOptions,
+  always = false
+): { labels: string[]; values: number[]; topN?: TopNFold } {
+  const aggregation = aggregationOf(options);
+  const groups = groupByCategory(data, categoryColumn, valueColumn);
+  const limit = options.topN || (always || groups.size > MAX_READABLE_CATEGORIES ? DEFAULT_TOP_N : 0);
+  if (!limit) {
+    const labels = Array.from(groups.keys());
+    return { labels, values: labels.map(label => aggregateValues(groups.get(label)!, aggregation)) };
+  }
+
+  const ranked = Array.from(groups.entries())
+    .map(([label, raw]) => ({ label, raw, value: aggregateValues(raw, aggregation) }))
+    .sort((a, b) => b.value - a.value);
+  const kept = ranked.slice(0, limit);
+  const rest = ranked.slice(limit);
+  const labels = kept.map(r => r.label);
+  const values = kept.map(r => r.value);
+  if (rest.length > 0) {
+    labels.push(text(options, 'label.others'));
+    values.push(aggregateValues(rest.flatMap(r => r.raw), aggregation));
+  }
+  return { labels, values, topN: { limit, folded: rest.length } };
+}
+
+interface DimensionSeries {
+  labels: string[];
+  values: Array<number | null>;
+  // Time bucketing applied, when the dimension is temporal
+  time?: { column: string; granularity: TimeGranularity; filled: number };
+  // Top-N folding applied, when the dimension is categorical
+  topN?: TopNFold;
+}
+
+// Values of another measure on the labels of an already aggregated series (same buckets,
+// same top-N selection and "Outros" fold)
+function alignMeasure(
+  data: DataPoint[],
+  dataStructure: DataStructure,
+  categoryColumn: string,
+  measure: string,
+  primary: DimensionSeries,
+  options: ChartGenerationOptions
+): Array<number | null> {
+  const aggregation = aggregationOf(options);
+  if (primary.time) {
+    return aggregateByDimension(data, dataStructure, categoryColumn, measure, options).values;
+  }
+  const groups = groupByCategory(data, categoryColumn, measure);
+  const kept = primary.topN?.folded ? primary.labels.slice(0, -1) : primary.labels;
+  const values: Array<number | null> = kept.map(label => aggregateValues(groups.get(label) || [], aggregation));
+  if (primary.topN?.folded) {
+    const keptSet = new Set(kept);
+    const rest = Array.from(groups.entries()).filter(([label]) => !keptSet.has(label)).flatMap(([, raw]) => raw);
+    values.push(aggregateValues(rest, aggregation));
+  }
+  return values;
+}
+
+// Aggregate per dimension value; time-like dimensions are bucketed, gap-filled and ordered chronologically
+function aggregateByDimension(
+  data: DataPoint[],
+  dataStructure: DataStructure,
+  categoryColumn: string,
+  valueColumn: string,
+  options: ChartGenerationOptions
+): DimensionSeries {
+  if (isTimeColumn(categoryColumn, dataStructure)) {
+    const axis = buildTimeAxis(data.map(r => r[categoryColumn]), { granularity: options.granularity });
+    if (axis) {
+      const empty = options.gapFill === 'null' ? null : 0;
+      const buckets = axis.labels.map(() => [] as unknown[]);
+      for (const row of data) {
+        const i = axis.bucketOf(row[categoryColumn]);
+        if (i >= 0) buckets[i].push(row[valueColumn]);
+      }
+      const values = buckets.map(bucket => bucket.length ? aggregateValues(bucket, aggregationOf(options)) : empty);
+      return {
+        labels: axis.labels,
+        values,
+        time: { column: categoryColumn, granularity: axis.granularity, filled: axis.filled }
+      };
+    }
+  }
+  const ranked = rankByCategory(data, categoryColumn, valueColumn, options);
+  return ranked.topN ? ranked : sortChronologically(ranked.labels, ranked.values);
+}
+
+// Time axis for a column, falling back to the distinct raw labels when they are not dates
+function timeAxisFor(data: DataPoint[], timeColumn: string, options: ChartGenerationOptions) {
+  const axis = buildTimeAxis(data.map(r => r[timeColumn]), { granularity: options.granularity });
+  if (axis) {
+    return { ...axis, time: { column: timeColumn, granularity: axis.granularity, filled: axis.filled } };
   }
-  indices.sort((a, b) => a.order - b.order);
-  const sortedLabels = indices.map(x => labels[x.i]);
-  const sortedValues = indices.map(x => values[x.i]);
-  return { labels: sortedLabels, values: sortedValues };
+  const distinct = Array.from(new Set(data.map(r => String(r[timeColumn] ?? ''))));
+  const { labels } = sortChronologically(distinct, distinct);
+  const index = new Map(labels.map((l, i) => [l, i]));
+  return { labels, bucketOf: (value: unknown) => index.get(String(value ?? '')) ?? -1, time: undefined };
 }
@@ -0,0 +1,46 @@
+import { ChartPlugin, ChartTypeId, LocalizedText } from './types';
+import { builtInChartPlugins } from './builtin-charts';
+import { DEFAULT_LOCALE } from './i18n';
+
+// Ordered set of chart plugins; registration order breaks confidence ties
+export class ChartRegistry {
+  private plugins = new Map<string, ChartPlugin>();
+
+  constructor(plugins: ChartPlugin[] = []) {
+    plugins.forEach(plugin => this.register(plugin));
+  }
+
+  // Registering an existing type replaces it in place
+  register(plugin: ChartPlugin): this {
+    if (!plugin.type) {
+      throw new Error('Chart plugin must declare a type');
+    }
+    this.plugins.set(plugin.type, plugin);
+    return this;
+  }
+
+  unregister(type: ChartTypeId): boolean {
+    return this.plugins.delete(type);
+  }
+
+  get(type: ChartTypeId): ChartPlugin | undefined {
+    return this.plugins.get(type);
+  }
+
+  has(type: ChartTypeId): boolean {
+    return this.plugins.has(type);
+  }
+
+  list(): ChartPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+}
+
+export function createDefaultRegistry(): ChartRegistry {
+  return new ChartRegistry(builtInChartPlugins);
+}
+
+export function resolveText(text: LocalizedText, locale: string = DEFAULT_LOCALE): string {
+  if (typeof text === 'string') return text;
+  return text[locale] ?? text[locale.split('-')[0]] ?? text[DEFAULT_LOCALE] ?? Object.values(text)[0] ?? '';
+}
@@ -0,0 +1,144 @@
+import { AutoChartingEngine } from './auto-charting';
+import { ChartEncoding, ChartSuggestion, Dashboard, DashboardPanel, DataPoint, SuggestOptions } from './types';
+import { isIdentifierColumn, isMeasureColumn } from './schema';
+
+const GRID_COLUMNS = 12;
+const ROW_HEIGHT = 80;
+const KPI_HEIGHT = 2;
+const PRIMARY_HEIGHT = 6;
+const SUPPORTING_HEIGHT = 5;
+
+export interface DashboardOptions extends SuggestOptions {
+  maxSupportingCharts?: number;
+}
+
+// Compose a full dashboard (KPIs, primary chart, supporting charts, narrative) from one query result
+export function composeDashboard(
+  engine: AutoChartingEngine,
+  data: DataPoint[],
+  originalQuestion?: string,
+  options: DashboardOptions = {}
+): Dashboard {
+  const { maxSupportingCharts, ...suggestOptions } = options;
+  const maxSupporting = maxSupportingCharts ?? 4;
+  const ranked = engine.rankCharts(data, originalQuestion, suggestOptions);
+  const charts = ranked.filter(s => s.type !== 'table');
+  const primary = charts[0] || ranked[0];
+
+  const panels: DashboardPanel[] = [];
+  let y = 0;
+
+  // KPI cards from every suggestion's meta.cards, deduplicated by title
+  const cards = new Map<string, any>();
+  for (const suggestion of ranked) {
+    for (const card of suggestion.config?.meta?.cards || []) {
+      if (!cards.has(card.title)) cards.set(card.title, card);
+    }
+  }
+  const kpis = Array.from(cards.values()).slice(0, 4);
+  const kpiWidth = kpis.length ? Math.floor(GRID_COLUMNS / kpis.length) : 0;
+  kpis.forEach((card, idx) => {
+    panels.push({ id: `kpi-${idx + 1}`, kind: 'kpi', position: { x: idx * kpiWidth, y, w: kpiWidth, h: KPI_HEIGHT }, card });
+  });
+  if (kpis.length) y += KPI_HEIGHT;
+
+  if (!primary) {
+    return { title: dashboardTitle(originalQuestion), layout: { columns: GRID_COLUMNS, rowHeight: ROW_HEIGHT }, panels };
+  }
+
+  // Primary chart on the left, narrative beside it
+  panels.push({ id: 'chart-primary', kind: 'chart', role: 'primary', position: { x: 0, y, w: 8, h: PRIMARY_HEIGHT }, suggestion: primary });
+  panels.push({
+    id: 'narrative',
+    kind: 'narrative',
+    position: { x: 8, y, w: 4, h: PRIMARY_HEIGHT },
+    text: primary.config?.meta?.narrative || ''
+  });
+  y += PRIMARY_HEIGHT;
+
+  // Supporting charts: each one must cover a dimension/measure pair not shown yet
+  const used = new Set<string>();
+  const primaryEncoding = encodingOf(primary);
+  if (primaryEncoding) used.add(encodingKey(primaryEncoding));
+
+  const supporting: ChartSuggestion[] = [];
+  for (const candidate of supportingCandidates(engine, data, charts.slice(1), primary, originalQuestion, suggestOptions)) {
+    if (supporting.length >= maxSupporting) break;
+    const encoding = encodingOf(candidate);
+    if (!encoding || used.has(encodingKey(encoding))) continue;
+    used.add(encodingKey(encoding));
+    supporting.push(candidate);
+  }
+
+  supporting.forEach((suggestion, idx) => {
+    panels.push({
+      id: `chart-${idx + 1}`,
+      kind: 'chart',
+      role: 'supporting',
+      position: { x: (idx % 2) * 6, y: y + Math.floor(idx / 2) * SUPPORTING_HEIGHT, w: 6, h: SUPPORTING_HEIGHT },
+      suggestion
+    });
+  });
+
+  return {
+    title: dashboardTitle(originalQuestion),
+    layout: { columns: GRID_COLUMNS, rowHeight: ROW_HEIGHT },
+    panels: dedupePanels(panels)
+  };
+}
+
+// Ranked alternatives plus variants of the primary chart over the other dimensions and measures
+function supportingCandidates(
+  engine: AutoChartingEngine,
+  data: DataPoint[],
+  ranked: ChartSuggestion[],
+  primary: ChartSuggestion,
+  originalQuestion: string | undefined,
+  suggestOptions: SuggestOptions
+): ChartSuggestion[] {
+  const primaryEncoding = encodingOf(primary);
+  if (!primaryEncoding || data.length === 0) return ranked;
+
+  const dataStructure = engine.analyzeDataStructure(data, suggestOptions.schema);
+  const columns = Object.keys(dataStructure.columnTypes);
+  // Same picks as the generators: ids (declared or named like one) are neither measures nor dimensions
+  const measures = columns.filter(c => isMeasureColumn(c, dataStructure) && !isIdentifierColumn(c, dataStructure) && c !== primaryEncoding.measure);
+  const dimensions = columns.filter(c => {
+    if (c === primaryEncoding.dimension || isMeasureColumn(c, dataStructure) || isIdentifierColumn(c, dataStructure)) return false;
+    const unique = dataStructure.distinctCounts?.[c] ?? 0;
+    return unique >= 2 && unique <= 20;
+  });
+
+  const variants: ChartSuggestion[] = [
+    ...measures.map(measure => engine.suggestChart(primary.type, data, originalQuestion, { dimension: primaryEncoding.dimension, measure }, suggestOptions)),
+    ...dimensions.map(dimension => engine.suggestChart('bar_chart', data, originalQuestion, { dimension, measure: primaryEncoding.measure }, suggestOptions)),
+  ];
+
+  return [...ranked, ...variants].sort((a, b) => b.confidence - a.confidence);
+}
+
+// Drop chart panels that repeat the same chart type over the same columns
+function dedupePanels(panels: DashboardPanel[]): DashboardPanel[] {
+  const seen = new Set<string>();
+  return panels.filter(panel => {
+    if (panel.kind !== 'chart') return true;
+    const encoding = encodingOf(panel.suggestion);
+    const key = `${panel.suggestion.type}|${encoding ? encodingKey(encoding) : panel.id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function encodingOf(suggestion: ChartSuggestion): ChartEncoding | null {
+  return suggestion.config?.meta?.encoding || null;
+}
+
+function encodingKey(encoding: ChartEncoding): string {
+  return `${encoding.dimension}|${encoding.measure}`;
+}
+
+function dashboardTitle(originalQuestion?: string): string {
+  const question = (originalQuestion || '').trim();
+  return question ? question.charAt(0).toUpperCase() + question.slice(1) : 'Dashboard';
+}
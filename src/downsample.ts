@@ -0,0 +1,53 @@
+// Point reduction for series too long to draw usefully
+
+// Largest-Triangle-Three-Buckets: indices of the points that keep the visual shape of the
+// series (first and last always kept). Nulls count as 0 when picking.
+export function lttbIndices(values: Array<number | null>, threshold: number): number[] {
+  const n = values.length;
+  if (threshold >= n || threshold < 3) return values.map((_, i) => i);
+
+  const y = (i: number) => Number(values[i] ?? 0);
+  const indices = [0];
+  const bucketSize = (n - 2) / (threshold - 2);
+  let a = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third vertex of the triangle
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, n);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += i;
+      avgY += y(i);
+    }
+    const count = Math.max(nextEnd - nextStart, 1);
+    avgX /= count;
+    avgY /= count;
+
+    // Point of the current bucket forming the largest triangle with the previous pick
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let picked = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs((a - avgX) * (y(i) - y(a)) - (a - i) * (avgY - y(a)));
+      if (area > maxArea) {
+        maxArea = area;
+        picked = i;
+      }
+    }
+    indices.push(picked);
+    a = picked;
+  }
+
+  indices.push(n - 1);
+  return indices;
+}
+
+// Evenly spaced indices; for point clouds where order carries no shape
+export function strideIndices(length: number, threshold: number): number[] {
+  if (threshold >= length || threshold < 1) return Array.from({ length }, (_, i) => i);
+  const step = length / threshold;
+  return Array.from({ length: threshold }, (_, i) => Math.floor(i * step));
+}
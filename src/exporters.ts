@@ -0,0 +1,511 @@
+import { ChartConfig, ScatterPoint, TableConfig } from './types';
+import { extent } from './statistics';
+
+export type ExportFormat = 'chartjs' | 'vega-lite' | 'echarts';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['chartjs', 'vega-lite', 'echarts'];
+
+export type ExportWarningCode =
+  | 'unsupported_type'
+  | 'callback_dropped'
+  | 'extra_axes_overlap'
+  | 'dash_pattern_approximated'
+  | 'map_geometry_required';
+
+// Every mapping that cannot be carried over exactly. Exporters report the codes that applied.
+export const EXPORT_WARNINGS: Record<ExportWarningCode, string> = {
+  unsupported_type: 'Tables and custom chart types have no equivalent spec; `spec` is null and the Chart.js config should be used.',
+  callback_dropped: 'Function callbacks in `options` (tick and tooltip formatters) are not serializable and were dropped; percent axes keep a "%" label.',
+  extra_axes_overlap: 'Vega-Lite draws at most two y axes; a third axis (e.g. growth % on a dual-axis chart) is drawn over the secondary one.',
+  dash_pattern_approximated: 'ECharts only knows solid/dashed/dotted lines; `borderDash` patterns are exported as "dashed".',
+  map_geometry_required: 'Boundary geometry is not bundled; the spec references the boundary set id and the client must register/provide the TopoJSON or GeoJSON.',
+};
+
+export interface ExportWarning {
+  code: ExportWarningCode;
+  message: string;
+}
+
+export interface ExportResult {
+  format: ExportFormat;
+  // Library spec (JSON-safe); null when the config has no equivalent
+  spec: any;
+  warnings: ExportWarning[];
+}
+
+// Library spec objects, built as plain JSON
+type Spec = Record<string, unknown>;
+type Dataset = ChartConfig['data']['datasets'][number];
+
+const CHART_TYPES = ['bar_chart', 'line_chart', 'area_chart', 'horizontal_bar', 'pie_chart', 'scatter_plot', 'map'];
+const EMPTY_DATASET: Dataset = { label: '', data: [] };
+
+export function exportChartConfig(config: ChartConfig | TableConfig, format: ExportFormat): ExportResult {
+  if (format === 'vega-lite') return toVegaLite(config);
+  if (format === 'echarts') return toECharts(config);
+  return { format: 'chartjs', spec: config, warnings: [] };
+}
+
+export function toVegaLite(config: ChartConfig | TableConfig): ExportResult {
+  const warnings = new WarningSet();
+  if (!isChartConfig(config)) {
+    warnings.add('unsupported_type');
+    return { format: 'vega-lite', spec: null, warnings: warnings.list() };
+  }
+  if (hasFunctions(config.options)) warnings.add('callback_dropped');
+
+  const base: Spec = {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    ...(titleOf(config) ? { title: titleOf(config) } : {}),
+    ...(config.meta?.accessibility?.altText ? { description: config.meta.accessibility.altText } : {}),
+    ...vegaTheme(config),
+  };
+
+  let body: Spec;
+  switch (config.type) {
+    case 'pie_chart':
+      body = vegaPie(config);
+      break;
+    case 'scatter_plot':
+      body = isPointData(config) ? vegaScatter(config) : vegaCategorical(config, warnings);
+      break;
+    case 'map':
+      body = vegaMap(config, warnings);
+      break;
+    default:
+      body = vegaCategorical(config, warnings);
+  }
+  return { format: 'vega-lite', spec: { ...base, ...body }, warnings: warnings.list() };
+}
+
+// Background, fonts and text/grid colours of the theme recorded in meta.theme
+function vegaTheme(config: ChartConfig): Spec {
+  const theme = config.meta?.theme;
+  if (!theme) return {};
+  return {
+    background: theme.colors.background,
+    config: {
+      font: theme.font.family,
+      title: { color: theme.colors.text, fontSize: theme.font.titleSize },
+      axis: { labelColor: theme.colors.muted, titleColor: theme.colors.text, gridColor: theme.colors.grid, labelFontSize: theme.font.size },
+      legend: { labelColor: theme.colors.text, titleColor: theme.colors.text },
+    },
+  };
+}
+
+function echartsTheme(config: ChartConfig): Spec {
+  const theme = config.meta?.theme;
+  if (!theme) return {};
+  return {
+    backgroundColor: theme.colors.background,
+    textStyle: { fontFamily: theme.font.family, fontSize: theme.font.size, color: theme.colors.text },
+  };
+}
+
+// Screen-reader description, and decal patterns when the config was styled for accessibility
+function echartsAria(config: ChartConfig): Spec {
+  const accessibility = config.meta?.accessibility;
+  if (!accessibility) return {};
+  return {
+    aria: {
+      enabled: true,
+      ...(accessibility.longDescription ? { label: { description: accessibility.longDescription } } : {}),
+      ...(accessibility.patterns ? { decal: { show: true } } : {}),
+    },
+  };
+}
+
+export function toECharts(config: ChartConfig | TableConfig): ExportResult {
+  const warnings = new WarningSet();
+  if (!isChartConfig(config)) {
+    warnings.add('unsupported_type');
+    return { format: 'echarts', spec: null, warnings: warnings.list() };
+  }
+  if (hasFunctions(config.options)) warnings.add('callback_dropped');
+
+  const base: Spec = {
+    ...(titleOf(config) ? { title: { text: titleOf(config) } } : {}),
+    legend: { show: config.options?.plugins?.legend?.display !== false },
+    tooltip: { trigger: config.type === 'pie_chart' || config.type === 'scatter_plot' || config.type === 'map' ? 'item' : 'axis' },
+    ...echartsAria(config),
+    ...echartsTheme(config),
+  };
+
+  let body: Spec;
+  switch (config.type) {
+    case 'pie_chart':
+      body = echartsPie(config);
+      break;
+    case 'scatter_plot':
+      body = isPointData(config) ? echartsScatter(config, warnings) : echartsCategorical(config, warnings);
+      break;
+    case 'map':
+      body = echartsMap(config, warnings);
+      break;
+    default:
+      body = echartsCategorical(config, warnings);
+  }
+  return { format: 'echarts', spec: { ...base, ...body }, warnings: warnings.list() };
+}
+
+class WarningSet {
+  private codes = new Set<ExportWarningCode>();
+
+  add(code: ExportWarningCode): void {
+    this.codes.add(code);
+  }
+
+  list(): ExportWarning[] {
+    return Array.from(this.codes).map(code => ({ code, message: EXPORT_WARNINGS[code] }));
+  }
+}
+
+// Shared reading of the Chart.js config
+
+type Mark = 'bar' | 'line' | 'area' | 'point';
+
+// Tables and custom plugin types have no library equivalent
+function isChartConfig(config: ChartConfig | TableConfig): config is ChartConfig {
+  return config?.type !== 'table' && CHART_TYPES.includes(config?.type) && 'data' in config;
+}
+
+function titleOf(config: ChartConfig): string | undefined {
+  const title = config.options?.plugins?.title;
+  return title?.display !== false && title?.text ? String(title.text) : undefined;
+}
+
+function hasFunctions(value: unknown): boolean {
+  if (typeof value === 'function') return true;
+  if (value && typeof value === 'object') return Object.values(value).some(hasFunctions);
+  return false;
+}
+
+function isStacked(config: ChartConfig): boolean {
+  const scales = config.options?.scales || {};
+  return Boolean(scales.x?.stacked || scales.y?.stacked);
+}
+
+function isPercent(config: ChartConfig): boolean {
+  return Boolean(config.meta?.percentOfTotal);
+}
+
+function isPointData(config: ChartConfig): boolean {
+  const first = config.data?.datasets?.[0]?.data?.[0];
+  return first !== null && typeof first === 'object';
+}
+
+function markOf(config: ChartConfig, dataset: Dataset): Mark {
+  if (dataset.type === 'line') return 'line';
+  switch (config.type) {
+    case 'line_chart':
+      return 'line';
+    case 'area_chart':
+      return 'area';
+    case 'scatter_plot':
+      return 'point';
+    default:
+      return 'bar';
+  }
+}
+
+function axisOf(dataset: Dataset): string {
+  return dataset.yAxisID || 'y';
+}
+
+// Axis ids in use, primary first
+function axesOf(config: ChartConfig): string[] {
+  const ids = Array.from(new Set(config.data.datasets.map(axisOf)));
+  return ids.sort((a, b) => (a === 'y' ? -1 : b === 'y' ? 1 : a.localeCompare(b)));
+}
+
+// Single color of a dataset (bars use the fill, lines the stroke)
+function colorOf(config: ChartConfig, dataset: Dataset): string | undefined {
+  const fill = typeof dataset.backgroundColor === 'string' ? dataset.backgroundColor : undefined;
+  const stroke = typeof dataset.borderColor === 'string' ? dataset.borderColor : undefined;
+  return markOf(config, dataset) === 'bar' || markOf(config, dataset) === 'point' ? fill || stroke : stroke || fill;
+}
+
+// Per-point colors, when a single dataset colors each bar/slice differently
+function pointColorsOf(dataset: Dataset): string[] | undefined {
+  return Array.isArray(dataset.backgroundColor) ? dataset.backgroundColor : undefined;
+}
+
+// Vega-Lite
+
+function vegaCategorical(config: ChartConfig, warnings: WarningSet): Spec {
+  const horizontal = config.type === 'horizontal_bar';
+  const stacked = isStacked(config);
+  const percent = isPercent(config);
+  const { labels, datasets } = config.data;
+  const values = datasets.flatMap(ds => labels.map((label, i) => ({ label, series: ds.label, value: ds.data[i] ?? null })));
+
+  const axes = axesOf(config);
+  if (axes.length > 2) warnings.add('extra_axes_overlap');
+
+  const perPoint = datasets.length === 1 ? pointColorsOf(datasets[0]) : undefined;
+  const color = perPoint
+    ? { field: 'label', type: 'nominal', scale: { domain: labels, range: perPoint }, legend: null }
+    : { field: 'series', type: 'nominal', scale: { domain: datasets.map(ds => ds.label), range: datasets.map(ds => colorOf(config, ds) || null) }, sort: null };
+
+  // One layer per mark/axis/dash combination
+  const groups = new Map<string, Dataset[]>();
+  for (const ds of datasets) {
+    const key = [markOf(config, ds), axisOf(ds), (ds.borderDash || []).join(',')].join('|');
+    groups.set(key, [...(groups.get(key) || []), ds]);
+  }
+
+  const category = { field: 'label', type: 'ordinal', sort: null, title: config.meta?.encoding?.dimension ?? null };
+  const layers = Array.from(groups.entries()).map(([key, members]) => {
+    const [mark, axis, dash] = key.split('|');
+    const axisSpec = {
+      ...(percent ? { labelExpr: "datum.value + '%'" } : {}),
+      ...(axis !== 'y' ? { orient: horizontal ? 'top' : 'right' } : {}),
+    };
+    const valueChannel = {
+      field: 'value',
+      type: 'quantitative',
+      title: members.map(ds => ds.label).join(', '),
+      stack: stacked && mark === 'bar' ? 'zero' : null,
+      ...(Object.keys(axisSpec).length ? { axis: axisSpec } : {}),
+      ...(percent && axis === 'y' ? { scale: { domain: [0, 100] } } : {}),
+    };
+
+    const encoding: Spec = horizontal
+      ? { y: category, x: valueChannel, color }
+      : { x: category, y: valueChannel, color };
+    if (mark === 'bar' && !stacked && members.length > 1) {
+      encoding[horizontal ? 'yOffset' : 'xOffset'] = { field: 'series', sort: null };
+    }
+    return {
+      transform: [{ filter: { field: 'series', oneOf: members.map(ds => ds.label) } }],
+      mark: {
+        type: mark,
+        ...(mark === 'line' ? { point: true } : {}),
+        ...(dash ? { strokeDash: dash.split(',').map(Number) } : {}),
+      },
+      encoding,
+    };
+  });
+
+  if (layers.length === 1) return { data: { values }, ...layers[0] };
+  return {
+    data: { values },
+    layer: layers,
+    ...(axes.length > 1 ? { resolve: { scale: { [horizontal ? 'x' : 'y']: 'independent' } } } : {}),
+  };
+}
+
+function vegaPie(config: ChartConfig): Spec {
+  const ds = config.data.datasets[0] || EMPTY_DATASET;
+  const labels = config.data.labels;
+  return {
+    data: { values: labels.map((label, i) => ({ label, value: ds.data[i] ?? null })) },
+    mark: { type: 'arc' },
+    encoding: {
+      theta: { field: 'value', type: 'quantitative', stack: true, title: isPercent(config) ? '%' : ds.label },
+      color: {
+        field: 'label',
+        type: 'nominal',
+        sort: null,
+        scale: pointColorsOf(ds) ? { domain: labels, range: pointColorsOf(ds) } : undefined,
+      },
+    },
+  };
+}
+
+function vegaScatter(config: ChartConfig): Spec {
+  const encoding = config.meta?.encoding || {};
+  const datasets = config.data.datasets;
+  const points = datasets.filter(ds => ds.type !== 'line');
+  const trend = datasets.find(ds => ds.type === 'line');
+  const values = points.flatMap(ds => (ds.data as ScatterPoint[]).map(p => ({ series: ds.label, x: p.x, y: p.y, r: p.r ?? null })));
+  const sized = values.some(v => v.r !== null);
+
+  const layers: Spec[] = [{
+    data: { values },
+    mark: { type: 'point', filled: true },
+    encoding: {
+      x: { field: 'x', type: 'quantitative', title: encoding.dimension ?? 'x' },
+      y: { field: 'y', type: 'quantitative', title: encoding.measure ?? 'y' },
+      color: { field: 'series', type: 'nominal', scale: { domain: points.map(ds => ds.label), range: points.map(ds => colorOf(config, ds) || null) } },
+      ...(sized ? { size: { field: 'r', type: 'quantitative', title: encoding.size ?? 'r' } } : {}),
+    },
+  }];
+  if (trend) {
+    layers.push({
+      data: { values: (trend.data as ScatterPoint[]).map(p => ({ x: p.x, y: p.y })) },
+      mark: { type: 'line', color: trend.borderColor, ...(trend.borderDash ? { strokeDash: trend.borderDash } : {}) },
+      encoding: { x: { field: 'x', type: 'quantitative' }, y: { field: 'y', type: 'quantitative' } },
+    });
+  }
+  return { layer: layers };
+}
+
+function vegaMap(config: ChartConfig, warnings: WarningSet): Spec {
+  const geo = config.geo;
+  const ds = config.data.datasets[0] || EMPTY_DATASET;
+  const range = rampOf(ds);
+  if (geo?.mode === 'points') {
+    return {
+      projection: { type: 'mercator' },
+      data: { values: geo.points || [] },
+      mark: { type: 'circle' },
+      encoding: {
+        longitude: { field: 'lng', type: 'quantitative' },
+        latitude: { field: 'lat', type: 'quantitative' },
+        size: { field: 'value', type: 'quantitative', title: ds.label },
+        color: { field: 'value', type: 'quantitative', scale: { range } },
+        tooltip: [{ field: 'label', type: 'nominal' }, { field: 'value', type: 'quantitative' }],
+      },
+    };
+  }
+
+  warnings.add('map_geometry_required');
+  const values = (geo?.features || [])
+    .map((f, i) => ({ featureId: f.featureId, label: f.label, value: ds.data[i] ?? null }))
+    .filter(v => v.featureId !== null);
+  return {
+    projection: { type: 'mercator' },
+    data: { name: geo?.boundary ?? 'boundary', format: { type: 'topojson', feature: geo?.boundary ?? 'boundary' } },
+    transform: [{ lookup: 'id', from: { data: { values }, key: 'featureId', fields: ['label', 'value'] } }],
+    mark: { type: 'geoshape', stroke: '#ffffff' },
+    encoding: {
+      color: { field: 'value', type: 'quantitative', title: ds.label, scale: { range } },
+      tooltip: [{ field: 'label', type: 'nominal' }, { field: 'value', type: 'quantitative' }],
+    },
+  };
+}
+
+// Lightest and darkest colors of a sequential (choropleth) fill
+function rampOf(dataset: Dataset): string[] {
+  const colors = pointColorsOf(dataset) || [];
+  const values = valuesOf(dataset);
+  if (colors.length === 0 || values.length === 0) return ['#dbeafe', '#1e40af'];
+  const [min, max] = extent(values);
+  return [colors[values.indexOf(min)], colors[values.indexOf(max)]];
+}
+
+// Map values, missing ones as 0
+function valuesOf(dataset: Dataset): number[] {
+  return (dataset.data as Array<number | null>).map(v => Number(v ?? 0));
+}
+
+// ECharts
+
+function echartsCategorical(config: ChartConfig, warnings: WarningSet): Spec {
+  const horizontal = config.type === 'horizontal_bar';
+  const stacked = isStacked(config);
+  const percent = isPercent(config);
+  const { labels, datasets } = config.data;
+  const axes = axesOf(config);
+
+  const valueAxes = axes.map((id, i) => ({
+    type: 'value',
+    position: horizontal ? (i === 0 ? 'bottom' : 'top') : (i === 0 ? 'left' : 'right'),
+    ...(i > 1 ? { offset: 60 * (i - 1) } : {}),
+    ...(percent && id === 'y' ? { max: 100, axisLabel: { formatter: '{value}%' } } : {}),
+    ...(id !== 'y' ? { splitLine: { show: false } } : {}),
+  }));
+  const categoryAxis = { type: 'category', data: labels };
+
+  const series = datasets.map(ds => {
+    const mark = markOf(config, ds);
+    const perPoint = datasets.length === 1 ? pointColorsOf(ds) : undefined;
+    const data = perPoint
+      ? (ds.data as Array<number | null>).map((value, i) => ({ value, itemStyle: { color: perPoint[i] } }))
+      : ds.data;
+    if (ds.borderDash?.length) warnings.add('dash_pattern_approximated');
+    return {
+      type: mark === 'bar' ? 'bar' : mark === 'point' ? 'scatter' : 'line',
+      name: ds.label,
+      data,
+      [horizontal ? 'xAxisIndex' : 'yAxisIndex']: axes.indexOf(axisOf(ds)),
+      ...(stacked && mark === 'bar' ? { stack: 'total' } : {}),
+      ...(mark === 'line' || mark === 'area' ? { smooth: Boolean(ds.tension) } : {}),
+      ...(mark === 'area' || (mark === 'line' && ds.fill === true) ? { areaStyle: { opacity: mark === 'area' ? 0.3 : 0.1 } } : {}),
+      ...(ds.borderDash?.length ? { lineStyle: { type: 'dashed' } } : {}),
+      ...(!perPoint && colorOf(config, ds) ? { itemStyle: { color: colorOf(config, ds) } } : {}),
+    };
+  });
+
+  return horizontal
+    ? { xAxis: valueAxes, yAxis: categoryAxis, series }
+    : { xAxis: categoryAxis, yAxis: valueAxes, series };
+}
+
+function echartsPie(config: ChartConfig): Spec {
+  const ds = config.data.datasets[0] || EMPTY_DATASET;
+  const colors = pointColorsOf(ds);
+  return {
+    series: [{
+      type: 'pie',
+      name: ds.label,
+      radius: '60%',
+      data: config.data.labels.map((name, i) => ({
+        name,
+        value: ds.data[i] ?? null,
+        ...(colors ? { itemStyle: { color: colors[i] } } : {}),
+      })),
+      ...(isPercent(config) ? { label: { formatter: '{b}: {c}%' } } : {}),
+    }],
+  };
+}
+
+function echartsScatter(config: ChartConfig, warnings: WarningSet): Spec {
+  const encoding = config.meta?.encoding || {};
+  const series = config.data.datasets.map(ds => {
+    const isTrend = ds.type === 'line';
+    if (isTrend && ds.borderDash?.length) warnings.add('dash_pattern_approximated');
+    return {
+      type: isTrend ? 'line' : 'scatter',
+      name: ds.label,
+      data: (ds.data as ScatterPoint[]).map(p => (p.r !== undefined && !isTrend ? { value: [p.x, p.y], symbolSize: p.r * 2 } : [p.x, p.y])),
+      ...(isTrend ? { showSymbol: false, lineStyle: { type: ds.borderDash?.length ? 'dashed' : 'solid' } } : {}),
+      itemStyle: { color: colorOf(config, ds) },
+    };
+  });
+  return {
+    xAxis: { type: 'value', name: encoding.dimension, scale: true },
+    yAxis: { type: 'value', name: encoding.measure, scale: true },
+    series,
+  };
+}
+
+function echartsMap(config: ChartConfig, warnings: WarningSet): Spec {
+  const geo = config.geo;
+  const ds = config.data.datasets[0] || EMPTY_DATASET;
+  const values = valuesOf(ds);
+  const [min, max] = values.length ? extent(values) : [0, 0];
+  const visualMap = {
+    min,
+    max,
+    inRange: { color: rampOf(ds) },
+    calculable: true,
+  };
+  warnings.add('map_geometry_required');
+
+  if (geo?.mode === 'points') {
+    return {
+      geo: { map: 'world', roam: true },
+      visualMap,
+      series: [{
+        type: 'scatter',
+        coordinateSystem: 'geo',
+        name: ds.label,
+        data: (geo.points || []).map(p => ({ name: p.label, value: [p.lng, p.lat, p.value] })),
+      }],
+    };
+  }
+  return {
+    visualMap,
+    series: [{
+      type: 'map',
+      name: ds.label,
+      map: geo?.boundary ?? 'boundary',
+      nameProperty: 'id',
+      data: (geo?.features || [])
+        .map((f, i) => ({ name: f.featureId, value: ds.data[i] ?? null }))
+        .filter(d => d.name !== null),
+    }],
+  };
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  ChartPreference,
+  ConfidenceBreakdown,
+  DataStructure,
+  FeedbackKey,
+  FeedbackRecord,
+  FeedbackStore,
+  LearnedPreference,
+  QuestionIntents,
+  SupportedLocale,
+} from './types';
+import { roleOf } from './schema';
+import { t } from './i18n';
+
+// Confidence a chart type can gain or lose through feedback
+export const MAX_FEEDBACK_ADJUSTMENT = 0.2;
+// Pseudo-count that keeps a couple of clicks from reordering the suggestions
+const PRIOR_VOTES = 3;
+// Feedback on the same data shape under another intent counts this much
+const OTHER_INTENT_WEIGHT = 0.5;
+
+export class MemoryFeedbackStore implements FeedbackStore {
+  private records: FeedbackRecord[] = [];
+
+  append(record: FeedbackRecord): void {
+    this.records.push(record);
+  }
+
+  list(): FeedbackRecord[] {
+    return [...this.records];
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
+
+// NDJSON file, one record per line, loaded once and appended to
+export class FileFeedbackStore implements FeedbackStore {
+  private records: FeedbackRecord[];
+
+  constructor(readonly file: string) {
+    this.records = readRecords(file);
+  }
+
+  append(record: FeedbackRecord): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.appendFileSync(this.file, `${JSON.stringify(record)}\n`);
+    this.records.push(record);
+  }
+
+  list(): FeedbackRecord[] {
+    return [...this.records];
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.file)) fs.writeFileSync(this.file, '');
+    this.records = [];
+  }
+}
+
+function readRecords(file: string): FeedbackRecord[] {
+  if (!fs.existsSync(file)) return [];
+  const records: FeedbackRecord[] = [];
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash; the rest of the history is still usable
+    }
+  }
+  return records;
+}
+
+// Same value for datasets with the same column types, roles and category sizes, whatever
+// the columns are called
+export function fingerprintStructure(dataStructure: DataStructure): string {
+  const columns = Object.keys(dataStructure.columnTypes).map(column => {
+    const type = dataStructure.columnTypes[column];
+    const distinct = dataStructure.distinctCounts?.[column];
+    const size = type === 'string' && distinct !== undefined ? (distinct <= 6 ? 'few' : distinct <= 20 ? 'some' : 'many') : '';
+    return [type, roleOf(dataStructure, column) || '', size].join(':');
+  }).sort();
+  const flags = [dataStructure.hasTimeSeries, dataStructure.hasCategories, dataStructure.hasGeographicData, dataStructure.hasNumericalComparison]
+    .map(flag => (flag ? 1 : 0)).join('');
+  return createHash('sha1').update(`${flags}|${columns.join(',')}`).digest('hex').slice(0, 12);
+}
+
+export function intentOf(intents: QuestionIntents): string {
+  const active = (Object.keys(intents) as Array<keyof QuestionIntents>).filter(intent => intents[intent]).sort();
+  return active.length ? active.join('+') : 'none';
+}
+
+// Confidence adjustment per chart type for requests of this kind
+export function preferenceAdjustments(records: FeedbackRecord[], key: FeedbackKey): Record<string, number> {
+  const votes = new Map<string, { chosen: number; rejected: number }>();
+  for (const record of records) {
+    if (record.fingerprint !== key.fingerprint) continue;
+    const weight = record.intent === key.intent ? 1 : OTHER_INTENT_WEIGHT;
+    const tally = votes.get(record.chartType) || { chosen: 0, rejected: 0 };
+    tally[record.action] += weight;
+    votes.set(record.chartType, tally);
+  }
+  return Object.fromEntries(Array.from(votes, ([chartType, tally]) => [chartType, adjustmentFor(tally.chosen, tally.rejected)]));
+}
+
+// Exact-key tallies, for export
+export function learnedPreferences(records: FeedbackRecord[]): LearnedPreference[] {
+  const groups = new Map<string, LearnedPreference>();
+  for (const record of records) {
+    const id = `${record.fingerprint}|${record.intent}`;
+    const group = groups.get(id) || { fingerprint: record.fingerprint, intent: record.intent, charts: [] };
+    let chart = group.charts.find(c => c.chartType === record.chartType);
+    if (!chart) {
+      chart = { chartType: record.chartType, chosen: 0, rejected: 0, adjustment: 0 };
+      group.charts.push(chart);
+    }
+    chart[record.action]++;
+    groups.set(id, group);
+  }
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    charts: group.charts
+      .map((chart): ChartPreference => ({ ...chart, adjustment: adjustmentFor(chart.chosen, chart.rejected) }))
+      .sort((a, b) => b.adjustment - a.adjustment),
+  }));
+}
+
+// The learned adjustment as one more factor of the breakdown
+export function applyPreference(breakdown: ConfidenceBreakdown, adjustment: number, locale: SupportedLocale): ConfidenceBreakdown {
+  if (!adjustment) return breakdown;
+  const factor = {
+    id: 'feedback',
+    strength: 1,
+    weight: adjustment,
+    contribution: adjustment,
+    reason: t(locale, adjustment > 0 ? 'factor.feedback' : 'factor.feedbackRejected'),
+  };
+  return {
+    ...breakdown,
+    factors: [...breakdown.factors, factor].sort((a, b) => b.contribution - a.contribution),
+    raw: round(breakdown.raw + adjustment),
+    confidence: round(Math.min(Math.max(breakdown.confidence + adjustment, 0), 1)),
+  };
+}
+
+function adjustmentFor(chosen: number, rejected: number): number {
+  return round((MAX_FEEDBACK_ADJUSTMENT * (chosen - rejected)) / (chosen + rejected + PRIOR_VOTES));
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
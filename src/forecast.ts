@@ -0,0 +1,106 @@
+import { ForecastModel, ForecastOptions, TimeGranularity } from './types';
+import { linearRegression, mean } from './statistics';
+
+export const DEFAULT_FORECAST_HORIZON = 3;
+export const DEFAULT_FORECAST_CONFIDENCE = 0.8;
+
+// Periods in one seasonal cycle; years have no seasonality we can model
+const SEASON_LENGTHS: Partial<Record<TimeGranularity, number>> = { day: 7, week: 52, month: 12, quarter: 4 };
+
+// Holt-Winters smoothing factors (level, trend, season)
+const ALPHA = 0.3;
+const BETA = 0.1;
+const GAMMA = 0.2;
+
+export interface ForecastResult {
+  model: ForecastModel;
+  horizon: number;
+  confidence: number;
+  seasonLength?: number;
+  values: number[];
+  lower: number[];
+  upper: number[];
+}
+
+export function seasonLengthFor(granularity?: TimeGranularity): number | undefined {
+  return granularity ? SEASON_LENGTHS[granularity] : undefined;
+}
+
+// Holt-Winters needs two full cycles to seed level, trend and seasonal indices
+export function chooseForecastModel(length: number, seasonLength?: number): ForecastModel {
+  return seasonLength && length >= seasonLength * 2 ? 'holt-winters' : 'linear';
+}
+
+// Fit the requested (or best-suited) model and project `horizon` periods ahead; null when the series is too short
+export function forecastSeries(values: number[], options: ForecastOptions & { seasonLength?: number } = {}): ForecastResult | null {
+  const horizon = Math.max(1, Math.round(options.horizon || DEFAULT_FORECAST_HORIZON));
+  const confidence = options.confidence || DEFAULT_FORECAST_CONFIDENCE;
+  const z = normalQuantile(0.5 + confidence / 2);
+  const seasonLength = options.seasonLength;
+
+  if (values.length < 3) return null;
+
+  // An explicit Holt-Winters request still falls back to linear on short series
+  const model = options.model === 'linear' ? 'linear' : chooseForecastModel(values.length, seasonLength);
+
+  const fit = model === 'holt-winters' ? holtWinters(values, seasonLength!, horizon) : linearTrend(values, horizon);
+  const round = (n: number) => Number(n.toFixed(2));
+  return {
+    model,
+    horizon,
+    confidence,
+    ...(model === 'holt-winters' ? { seasonLength } : {}),
+    values: fit.values.map(round),
+    lower: fit.values.map((v, h) => round(v - z * fit.errors[h])),
+    upper: fit.values.map((v, h) => round(v + z * fit.errors[h])),
+  };
+}
+
+// Least-squares line; errors are the standard prediction errors at each future index
+function linearTrend(values: number[], horizon: number): { values: number[]; errors: number[] } {
+  const n = values.length;
+  const xs = values.map((_, i) => i);
+  const { slope, intercept } = linearRegression(xs, values);
+  const residuals = values.map((v, i) => v - (intercept + slope * i));
+  const s = Math.sqrt(residuals.reduce((acc, r) => acc + r * r, 0) / Math.max(n - 2, 1));
+  const mx = mean(xs);
+  const sxx = xs.reduce((acc, x) => acc + (x - mx) ** 2, 0);
+
+  const future = Array.from({ length: horizon }, (_, h) => n + h);
+  return {
+    values: future.map(x => intercept + slope * x),
+    errors: future.map(x => s * Math.sqrt(1 + 1 / n + (x - mx) ** 2 / sxx)),
+  };
+}
+
+// Additive Holt-Winters; errors grow with the square root of the steps ahead
+function holtWinters(values: number[], m: number, horizon: number): { values: number[]; errors: number[] } {
+  let level = mean(values.slice(0, m));
+  let trend = (mean(values.slice(m, 2 * m)) - level) / m;
+  const season = values.slice(0, m).map(v => v - level);
+
+  const residuals: number[] = [];
+  for (let t = m; t < values.length; t++) {
+    const seasonal = season[t - m];
+    residuals.push(values[t] - (level + trend + seasonal));
+    const previousLevel = level;
+    level = ALPHA * (values[t] - seasonal) + (1 - ALPHA) * (level + trend);
+    trend = BETA * (level - previousLevel) + (1 - BETA) * trend;
+    season.push(GAMMA * (values[t] - level) + (1 - GAMMA) * seasonal);
+  }
+
+  const sigma = Math.sqrt(mean(residuals.map(r => r * r)));
+  const n = values.length;
+  return {
+    values: Array.from({ length: horizon }, (_, h) => level + (h + 1) * trend + season[n - m + (h % m)]),
+    errors: Array.from({ length: horizon }, (_, h) => sigma * Math.sqrt(h + 1)),
+  };
+}
+
+// Inverse standard normal CDF (Abramowitz & Stegun 26.2.23, |error| < 4.5e-4)
+function normalQuantile(p: number): number {
+  const q = Math.min(Math.max(p < 0.5 ? p : 1 - p, 1e-10), 0.5);
+  const t = Math.sqrt(-2 * Math.log(q));
+  const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+  return p < 0.5 ? -z : z;
+}
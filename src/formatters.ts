@@ -0,0 +1,142 @@
+import { ChartFormats, DataStructure, SupportedLocale, ValueFormat, ValueUnit } from './types';
+import { DEFAULT_LOCALE } from './i18n';
+import { roleOf } from './schema';
+
+// Declarative formatting shared by the server (which only emits JSON) and browser clients
+// (which call hydrateChartConfig before handing the config to Chart.js)
+
+const DEFAULT_CURRENCY = 'BRL';
+// Currency assumed for money columns when neither the caller nor the column name says
+const LOCALE_CURRENCIES: Record<SupportedLocale, string> = { 'pt-BR': 'BRL', en: 'USD', es: 'EUR' };
+// Prose switches to the compact form ("R$ 1,2 mi") from here on
+const COMPACT_FROM = 1e6;
+
+const CURRENCY_NAME = /receita|faturamento|valor|pre[cç]o|custo|lucro|sal[aá]rio|ticket|revenue|price|cost|profit|amount|salary|ingreso|precio|costo|importe|ganancia/i;
+const CURRENCY_CODE_NAMES: Array<[RegExp, string]> = [
+  [/(^|[^a-z])usd([^a-z]|$)|d[oó]lar|dollar/i, 'USD'],
+  [/(^|[^a-z])eur([^a-z]|$)|euro/i, 'EUR'],
+  [/(^|[^a-z])brl([^a-z]|$)|reais/i, 'BRL'],
+];
+const PERCENT_NAME = /%|percent|porcent|pct/i;
+const COUNT_NAME = /^(qtd|qtde|quantidade|qty|quantity|count|contagem|cantidad|num|n)([^a-z]|$)|(_count|_qtd|_qtde)$/i;
+
+// Display string of one value; 'percent' values are already percentages (12.5 -> "12,5%")
+export function formatValue(value: unknown, format: ValueFormat): string {
+  if (value === null || value === undefined || value === '') return '';
+  const locale = format.locale || DEFAULT_LOCALE;
+  if (format.style === 'date') return formatDate(value, format.pattern || 'dd/MM/yyyy', locale);
+
+  const n = Number(value);
+  if (!Number.isFinite(n)) return String(value);
+  const digits = (max: number): Intl.NumberFormatOptions => format.decimals !== undefined
+    ? { minimumFractionDigits: format.decimals, maximumFractionDigits: format.decimals }
+    : { maximumFractionDigits: max };
+
+  const sign: Intl.NumberFormatOptions = format.signed ? { signDisplay: 'exceptZero' } : {};
+  const compact = format.style === 'compact' || format.compact;
+
+  switch (format.style) {
+    case 'percent':
+      return new Intl.NumberFormat(locale, { style: 'percent', ...digits(1), ...sign }).format(n / 100);
+    case 'currency':
+      return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: format.currency || DEFAULT_CURRENCY,
+        // Without explicit decimals the currency's own minor units apply (compact: up to 1)
+        ...(compact ? { notation: 'compact', maximumFractionDigits: 1 } : format.decimals !== undefined ? digits(format.decimals) : {}),
+        ...sign,
+      }).format(n);
+    default:
+      return new Intl.NumberFormat(locale, compact ? { notation: 'compact', maximumFractionDigits: 1, ...sign } : { ...digits(2), ...sign }).format(n);
+  }
+}
+
+// Value for narratives and cards: full precision up to a million, compact above
+export function formatReadable(value: number, format: ValueFormat): string {
+  return formatValue(value, { ...format, compact: format.compact ?? Math.abs(value) >= COMPACT_FROM });
+}
+
+// Unit of a measure column: the caller's, then the schema role, then the column name
+export function detectUnit(column: string, dataStructure: DataStructure, units: Record<string, ValueUnit> = {}): ValueUnit {
+  if (units[column]) return units[column];
+  const role = roleOf(dataStructure, column);
+  const code = CURRENCY_CODE_NAMES.find(([pattern]) => pattern.test(column))?.[1];
+  if (role === 'percent') return 'percent';
+  if (role === 'currency') return code || 'currency';
+  if (role && role !== 'measure') return 'number';
+  if (PERCENT_NAME.test(column)) return 'percent';
+  if (code || CURRENCY_NAME.test(column)) return code || 'currency';
+  if (COUNT_NAME.test(column)) return 'count';
+  return 'number';
+}
+
+// Format of values in a unit; `unit` may also be an ISO 4217 code ('USD')
+export function formatForUnit(unit: ValueUnit, locale: SupportedLocale): ValueFormat {
+  switch (unit) {
+    case 'percent': return { style: 'percent', locale };
+    case 'count': return { style: 'number', decimals: 0, locale };
+    case 'number': return { style: 'number', locale };
+    case 'currency': return { style: 'currency', currency: LOCALE_CURRENCIES[locale] || DEFAULT_CURRENCY, locale };
+    default: return { style: 'currency', currency: unit.toUpperCase(), locale };
+  }
+}
+
+// Copy of a chart config whose `formats` are wired into Chart.js tick and tooltip callbacks.
+// Callbacks already present in `options` are kept.
+export function hydrateChartConfig<T extends { type?: string; options?: any; formats?: ChartFormats }>(config: T): T {
+  const formats = config?.formats;
+  if (!formats || (!formats.axes && !formats.value)) return config;
+
+  const options = { ...config.options };
+  const scales = { ...options.scales };
+  for (const [id, format] of Object.entries(formats.axes || {})) {
+    const ticks = scales[id]?.ticks || {};
+    if (ticks.callback) continue;
+    scales[id] = { ...scales[id], ticks: { ...ticks, callback: (value: number | string) => formatValue(value, format) } };
+  }
+  if (options.scales || formats.axes) options.scales = scales;
+
+  const plugins = { ...options.plugins };
+  const tooltip = { ...plugins.tooltip };
+  if (!tooltip.callbacks?.label) {
+    const horizontal = config.type === 'horizontal_bar';
+    tooltip.callbacks = {
+      ...tooltip.callbacks,
+      label: (ctx: any) => {
+        const parsed = ctx.parsed;
+        // Pie slices parse to a number; cartesian points to { x, y }
+        // Tooltips show the full value even where ticks are compact
+        if (typeof parsed === 'number') {
+          return `${ctx.label}: ${formats.value ? formatValue(parsed, { ...formats.value, compact: false }) : parsed}`;
+        }
+        const axis = horizontal ? ctx.dataset?.xAxisID || 'x' : ctx.dataset?.yAxisID || 'y';
+        const value = horizontal ? parsed?.x : parsed?.y;
+        const format = formats.axes?.[axis] || formats.value;
+        return `${ctx.dataset?.label}: ${format ? formatValue(value, { ...format, compact: false }) : value}`;
+      },
+    };
+  }
+  plugins.tooltip = tooltip;
+  options.plugins = plugins;
+
+  return { ...config, options };
+}
+
+const pad = (n: number, size = 2) => String(n).padStart(size, '0');
+
+// Subset of date-fns tokens; unparseable values are shown as they are
+function formatDate(value: unknown, pattern: string, locale: string): string {
+  const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+  if (Number.isNaN(date.getTime())) return String(value);
+  const month = new Intl.DateTimeFormat(locale, { month: 'short', timeZone: 'UTC' }).format(date).replace('.', '');
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    yy: pad(date.getUTCFullYear() % 100),
+    MMM: month,
+    MM: pad(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+  };
+  return pattern.replace(/yyyy|yy|MMM|MM|dd|HH|mm/g, token => tokens[token]);
+}
@@ -0,0 +1,164 @@
+// Bundled, offline reference data for the boundary sets the map generator knows about.
+// Feature ids follow the IBGE UF codes (Brazilian states) and ISO 3166-1 alpha-3
+// (countries), which are the ids used by the TopoJSON files shipped with the UI.
+
+export interface GeoFeature {
+  id: string;
+  name: string;
+  // Alternative names and codes that should resolve to this feature
+  aliases: string[];
+  // [longitude, latitude]
+  centroid: [number, number];
+}
+
+export interface GeoBoundarySet {
+  id: string;
+  name: string;
+  features: GeoFeature[];
+}
+
+const brState = (uf: string, ibge: string, name: string, centroid: [number, number], extra: string[] = []): GeoFeature => ({
+  id: uf,
+  name,
+  aliases: [uf, ibge, `BR-${uf}`, ...extra],
+  centroid,
+});
+
+export const BRAZIL_STATES: GeoBoundarySet = {
+  id: 'br-states',
+  name: 'Brasil - Unidades da Federação',
+  features: [
+    brState('AC', '12', 'Acre', [-70.5, -9.0]),
+    brState('AL', '27', 'Alagoas', [-36.6, -9.6]),
+    brState('AP', '16', 'Amapá', [-51.8, 1.4]),
+    brState('AM', '13', 'Amazonas', [-64.7, -4.2]),
+    brState('BA', '29', 'Bahia', [-41.7, -12.5]),
+    brState('CE', '23', 'Ceará', [-39.6, -5.2]),
+    brState('DF', '53', 'Distrito Federal', [-47.8, -15.8], ['Brasília']),
+    brState('ES', '32', 'Espírito Santo', [-40.6, -19.6]),
+    brState('GO', '52', 'Goiás', [-49.6, -16.0]),
+    brState('MA', '21', 'Maranhão', [-45.3, -5.1]),
+    brState('MT', '51', 'Mato Grosso', [-55.9, -12.9]),
+    brState('MS', '50', 'Mato Grosso do Sul', [-54.8, -20.5]),
+    brState('MG', '31', 'Minas Gerais', [-44.6, -18.5]),
+    brState('PA', '15', 'Pará', [-52.3, -3.8]),
+    brState('PB', '25', 'Paraíba', [-36.8, -7.1]),
+    brState('PR', '41', 'Paraná', [-51.6, -24.6]),
+    brState('PE', '26', 'Pernambuco', [-37.9, -8.4]),
+    brState('PI', '22', 'Piauí', [-42.7, -7.7]),
+    brState('RJ', '33', 'Rio de Janeiro', [-42.7, -22.3]),
+    brState('RN', '24', 'Rio Grande do Norte', [-36.7, -5.8]),
+    brState('RS', '43', 'Rio Grande do Sul', [-53.3, -29.8]),
+    brState('RO', '11', 'Rondônia', [-62.8, -10.9]),
+    brState('RR', '14', 'Roraima', [-61.4, 2.1]),
+    brState('SC', '42', 'Santa Catarina', [-50.5, -27.2]),
+    brState('SP', '35', 'São Paulo', [-48.5, -22.2]),
+    brState('SE', '28', 'Sergipe', [-37.4, -10.6]),
+    brState('TO', '17', 'Tocantins', [-48.3, -10.2]),
+  ],
+};
+
+const country = (alpha2: string, alpha3: string, names: string[], centroid: [number, number]): GeoFeature => ({
+  id: alpha3,
+  name: names[0],
+  aliases: [alpha2, alpha3, ...names.slice(1)],
+  centroid,
+});
+
+export const WORLD_COUNTRIES: GeoBoundarySet = {
+  id: 'world-countries',
+  name: 'Mundo - Países',
+  features: [
+    country('BR', 'BRA', ['Brazil', 'Brasil'], [-51.9, -14.2]),
+    country('AR', 'ARG', ['Argentina'], [-63.6, -38.4]),
+    country('CL', 'CHL', ['Chile'], [-71.5, -35.7]),
+    country('UY', 'URY', ['Uruguay', 'Uruguai'], [-55.8, -32.5]),
+    country('PY', 'PRY', ['Paraguay', 'Paraguai'], [-58.4, -23.4]),
+    country('BO', 'BOL', ['Bolivia', 'Bolívia'], [-63.6, -16.3]),
+    country('PE', 'PER', ['Peru', 'Perú'], [-75.0, -9.2]),
+    country('CO', 'COL', ['Colombia', 'Colômbia'], [-74.3, 4.6]),
+    country('VE', 'VEN', ['Venezuela'], [-66.6, 6.4]),
+    country('EC', 'ECU', ['Ecuador', 'Equador'], [-78.2, -1.8]),
+    country('MX', 'MEX', ['Mexico', 'México'], [-102.6, 23.6]),
+    country('US', 'USA', ['United States', 'Estados Unidos', 'EUA', 'United States of America'], [-95.7, 37.1]),
+    country('CA', 'CAN', ['Canada', 'Canadá'], [-106.3, 56.1]),
+    country('GB', 'GBR', ['United Kingdom', 'Reino Unido', 'UK', 'Great Britain'], [-3.4, 55.4]),
+    country('IE', 'IRL', ['Ireland', 'Irlanda'], [-8.2, 53.4]),
+    country('FR', 'FRA', ['France', 'França', 'Francia'], [2.2, 46.2]),
+    country('DE', 'DEU', ['Germany', 'Alemanha', 'Alemania'], [10.5, 51.2]),
+    country('ES', 'ESP', ['Spain', 'Espanha', 'España'], [-3.7, 40.5]),
+    country('PT', 'PRT', ['Portugal'], [-8.2, 39.4]),
+    country('IT', 'ITA', ['Italy', 'Itália', 'Italia'], [12.6, 41.9]),
+    country('NL', 'NLD', ['Netherlands', 'Países Baixos', 'Holanda', 'Países Bajos'], [5.3, 52.1]),
+    country('BE', 'BEL', ['Belgium', 'Bélgica'], [4.5, 50.5]),
+    country('CH', 'CHE', ['Switzerland', 'Suíça', 'Suiza'], [8.2, 46.8]),
+    country('AT', 'AUT', ['Austria', 'Áustria'], [14.6, 47.5]),
+    country('SE', 'SWE', ['Sweden', 'Suécia', 'Suecia'], [18.6, 60.1]),
+    country('NO', 'NOR', ['Norway', 'Noruega'], [8.5, 60.5]),
+    country('DK', 'DNK', ['Denmark', 'Dinamarca'], [9.5, 56.3]),
+    country('FI', 'FIN', ['Finland', 'Finlândia', 'Finlandia'], [25.7, 61.9]),
+    country('PL', 'POL', ['Poland', 'Polônia', 'Polonia'], [19.1, 51.9]),
+    country('RU', 'RUS', ['Russia', 'Rússia', 'Rusia'], [105.3, 61.5]),
+    country('TR', 'TUR', ['Turkey', 'Turquia', 'Turquía'], [35.2, 39.0]),
+    country('CN', 'CHN', ['China'], [104.2, 35.9]),
+    country('JP', 'JPN', ['Japan', 'Japão', 'Japón'], [138.3, 36.2]),
+    country('KR', 'KOR', ['South Korea', 'Coreia do Sul', 'Corea del Sur'], [127.8, 35.9]),
+    country('IN', 'IND', ['India', 'Índia'], [78.96, 20.6]),
+    country('ID', 'IDN', ['Indonesia', 'Indonésia'], [113.9, -0.8]),
+    country('AU', 'AUS', ['Australia', 'Austrália'], [133.8, -25.3]),
+    country('NZ', 'NZL', ['New Zealand', 'Nova Zelândia', 'Nueva Zelanda'], [174.9, -40.9]),
+    country('ZA', 'ZAF', ['South Africa', 'África do Sul', 'Sudáfrica'], [22.9, -30.6]),
+    country('NG', 'NGA', ['Nigeria', 'Nigéria'], [8.7, 9.1]),
+    country('EG', 'EGY', ['Egypt', 'Egito', 'Egipto'], [30.8, 26.8]),
+    country('MA', 'MAR', ['Morocco', 'Marrocos', 'Marruecos'], [-7.1, 31.8]),
+    country('AO', 'AGO', ['Angola'], [17.9, -11.2]),
+    country('MZ', 'MOZ', ['Mozambique', 'Moçambique'], [35.5, -18.7]),
+    country('IL', 'ISR', ['Israel'], [34.9, 31.0]),
+    country('SA', 'SAU', ['Saudi Arabia', 'Arábia Saudita', 'Arabia Saudita'], [45.1, 23.9]),
+    country('AE', 'ARE', ['United Arab Emirates', 'Emirados Árabes Unidos', 'Emiratos Árabes Unidos', 'UAE'], [53.8, 23.4]),
+  ],
+};
+
+export const BOUNDARY_SETS: GeoBoundarySet[] = [BRAZIL_STATES, WORLD_COUNTRIES];
+
+// Lowercase, strip accents and punctuation so "São Paulo", "sao paulo" and "SAO-PAULO" match
+export function normalizeGeoName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const lookupCache = new Map<string, Map<string, GeoFeature>>();
+
+function lookupFor(set: GeoBoundarySet): Map<string, GeoFeature> {
+  let lookup = lookupCache.get(set.id);
+  if (!lookup) {
+    lookup = new Map();
+    for (const feature of set.features) {
+      for (const key of [feature.name, ...feature.aliases]) {
+        lookup.set(normalizeGeoName(key), feature);
+      }
+    }
+    lookupCache.set(set.id, lookup);
+  }
+  return lookup;
+}
+
+export function matchGeoFeature(set: GeoBoundarySet, value: string): GeoFeature | null {
+  return lookupFor(set).get(normalizeGeoName(value)) || null;
+}
+
+// Pick the boundary set that resolves the most values (ties go to the first set)
+export function resolveBoundarySet(values: string[]): { set: GeoBoundarySet; matched: number } | null {
+  let best: { set: GeoBoundarySet; matched: number } | null = null;
+  for (const set of BOUNDARY_SETS) {
+    const matched = values.filter(v => matchGeoFeature(set, v) !== null).length;
+    if (matched > 0 && (!best || matched > best.matched)) {
+      best = { set, matched };
+    }
+  }
+  return best;
+}
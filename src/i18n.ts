@@ -0,0 +1,411 @@
+import { QuestionIntents, SupportedLocale } from './types';
+
+export { SupportedLocale };
+
+export const DEFAULT_LOCALE: SupportedLocale = 'pt-BR';
+export const SUPPORTED_LOCALES: SupportedLocale[] = ['pt-BR', 'en', 'es'];
+
+const ptBR = {
+  'chart.bar_chart.title': 'Gráfico de Barras',
+  'chart.bar_chart.description': 'Ideal para comparar valores entre categorias',
+  'chart.line_chart.title': 'Gráfico de Linha',
+  'chart.line_chart.description': 'Perfeito para mostrar tendências ao longo do tempo',
+  'chart.pie_chart.title': 'Gráfico de Pizza',
+  'chart.pie_chart.description': 'Ótimo para mostrar proporções de um todo',
+  'chart.area_chart.title': 'Gráfico de Área',
+  'chart.area_chart.description': 'Bom para mostrar volume e tendências',
+  'chart.scatter_plot.title': 'Gráfico de Dispersão',
+  'chart.scatter_plot.description': 'Ideal para correlacionar duas variáveis numéricas',
+  'chart.horizontal_bar.title': 'Gráfico de Barras Horizontal',
+  'chart.horizontal_bar.description': 'Bom para rankings e comparações',
+  'chart.table.title': 'Tabela',
+  'chart.table.description': 'Apresenta todos os dados de forma organizada',
+  'chart.map.title': 'Mapa',
+  'chart.map.description': 'Ideal para dados geográficos',
+
+  'reasoning.bar_chart': 'Gráfico de barras é perfeito para comparar valores entre categorias',
+  'reasoning.line_chart': 'Gráfico de linha é ideal para mostrar tendências ao longo do tempo',
+  'reasoning.area_chart': 'Gráfico de área destaca volume acumulado e evolução temporal',
+  'reasoning.pie_chart': 'Gráfico de pizza mostra a proporção de cada categoria no total',
+  'reasoning.horizontal_bar': 'Gráfico de barras horizontal é ideal para rankings e comparações',
+  'reasoning.scatter_plot': 'Gráfico de dispersão ajuda a visualizar correlações entre variáveis numéricas',
+  'reasoning.map': 'Mapa mostra a distribuição geográfica dos valores por região',
+  'reasoning.default': 'Este tipo de visualização é adequado para os dados analisados',
+  'reasoning.because': '{reasoning}: {reasons}',
+
+  'factor.timeSeries': 'os dados formam uma série temporal',
+  'factor.timeQuestion': 'a pergunta fala de crescimento ou de meses',
+  'factor.geographic': 'há colunas geográficas',
+  'factor.stateOrCountry': 'a pergunta pede estados ou países',
+  'factor.categories': 'há categorias para comparar',
+  'factor.proportion': 'a pergunta fala de proporção',
+  'factor.ranking': 'a pergunta pede um ranking',
+  'factor.numericalComparison': 'há duas medidas numéricas para relacionar',
+  'factor.feedback': 'usuários escolheram este gráfico para dados e perguntas parecidos',
+  'factor.feedbackRejected': 'usuários descartaram este gráfico para dados e perguntas parecidos',
+
+  'title.by': '{measure} por {dimension}',
+  'title.byTwo': '{measure} por {dimension} e {series}',
+  'title.overTime': '{measure} ao longo do tempo',
+  'title.bySeriesOverTime': '{measure} por {series} ao longo do tempo',
+  'title.volumeOverTime': '{measure} - Volume ao longo do tempo',
+  'title.distribution': 'Distribuição de {measure}',
+  'title.versus': '{y} vs {x}',
+  'title.byLocation': '{measure} por localização',
+  'title.table': 'Tabela de Dados',
+
+  'aggregation.avg': 'média de {measure}',
+  'aggregation.count': 'contagem de {measure}',
+  'aggregation.count_distinct': '{measure} distintos',
+  'aggregation.min': 'mínimo de {measure}',
+  'aggregation.max': 'máximo de {measure}',
+  'aggregation.median': 'mediana de {measure}',
+
+  'label.trendLine': 'Tendência linear',
+  'label.forecast': 'Previsão',
+  'label.forecastLower': 'Limite inferior ({confidence}%)',
+  'label.forecastUpper': 'Limite superior ({confidence}%)',
+  'label.total': 'Total',
+  'label.others': 'Outros',
+  'label.growthPercent': 'Crescimento %',
+  'card.growth': 'Crescimento {from}→{to}',
+
+  'narrative.points': 'Total de pontos analisados: {count}.',
+  'narrative.records': 'Total de registros: {count}.',
+  'narrative.categories': 'Categorias/Períodos: {count}.',
+  'narrative.stats': 'Média: {avg}; Máx: {max} ({maxLabel}); Mín: {min} ({minLabel}).',
+  'narrative.series': 'Foram comparadas {count} séries (ex.: {first} vs {second}).',
+  'narrative.recentChange': 'Variação recente: {value}.',
+  'narrative.aggregation': 'Valores calculados como {measure}.',
+  'narrative.forecast': 'Projeção de {horizon} períodos pelo modelo {model}.',
+  'narrative.anomalyAbove': '{label} ficou {percent}% acima do esperado.',
+  'narrative.anomalyBelow': '{label} ficou {percent}% abaixo do esperado.',
+  'narrative.correlation': 'Correlação entre {x} e {y}: Pearson {pearson} ({description})',
+  'narrative.spearman': '; Spearman {spearman}.',
+
+  'insight.concentration': '{count} de {total} categorias concentram {percent}% do total ({labels}).',
+  'insight.evenness.even': 'Valores bem distribuídos entre as categorias (equidade {index}).',
+  'insight.evenness.moderate': 'Distribuição moderadamente concentrada (equidade {index}).',
+  'insight.evenness.uneven': 'Distribuição muito desigual entre as categorias (equidade {index}).',
+  'insight.trendUp': 'Tendência de alta: {slope} por período ({percent}% da média).',
+  'insight.trendDown': 'Tendência de queda: {slope} por período ({percent}% da média).',
+  'insight.trendFlat': 'Sem tendência clara no período.',
+  'insight.moverUp': 'Maior alta: {from} → {to} ({change}).',
+  'insight.moverDown': 'Maior queda: {from} → {to} ({change}).',
+  'insight.contributor': '{label} foi a série que mais variou de {from} para {to} ({change}).',
+
+  'a11y.categories': '{heading}. {count} categorias; maior valor em {maxLabel} ({max}) e menor em {minLabel} ({min}).',
+  'a11y.periods': '{heading}. {count} períodos de {first} a {last}, passando de {start} para {end}.',
+  'a11y.points': '{heading}. {count} pontos.',
+  'a11y.table': 'Tabela com {rows} linhas e {columns} colunas: {names}.',
+  'a11y.generic': '{heading}.',
+  'a11y.series': '{label}: {values}.',
+  'a11y.more': 'e mais {count}',
+
+  'correlation.strong': 'forte',
+  'correlation.moderate': 'moderada',
+  'correlation.weak': 'fraca',
+  'correlation.veryWeak': 'muito fraca',
+  'correlation.positive': 'positiva',
+  'correlation.negative': 'negativa',
+};
+
+export type MessageKey = keyof typeof ptBR;
+
+const en: Partial<Record<MessageKey, string>> = {
+  'chart.bar_chart.title': 'Bar Chart',
+  'chart.bar_chart.description': 'Ideal for comparing values across categories',
+  'chart.line_chart.title': 'Line Chart',
+  'chart.line_chart.description': 'Perfect for showing trends over time',
+  'chart.pie_chart.title': 'Pie Chart',
+  'chart.pie_chart.description': 'Great for showing parts of a whole',
+  'chart.area_chart.title': 'Area Chart',
+  'chart.area_chart.description': 'Good for showing volume and trends',
+  'chart.scatter_plot.title': 'Scatter Plot',
+  'chart.scatter_plot.description': 'Ideal for correlating two numeric variables',
+  'chart.horizontal_bar.title': 'Horizontal Bar Chart',
+  'chart.horizontal_bar.description': 'Good for rankings and comparisons',
+  'chart.table.title': 'Table',
+  'chart.table.description': 'Shows all the data in an organized way',
+  'chart.map.title': 'Map',
+  'chart.map.description': 'Ideal for geographic data',
+
+  'reasoning.bar_chart': 'A bar chart is perfect for comparing values across categories',
+  'reasoning.line_chart': 'A line chart is ideal for showing trends over time',
+  'reasoning.area_chart': 'An area chart highlights accumulated volume and change over time',
+  'reasoning.pie_chart': 'A pie chart shows each category\'s share of the total',
+  'reasoning.horizontal_bar': 'A horizontal bar chart is ideal for rankings and comparisons',
+  'reasoning.scatter_plot': 'A scatter plot helps reveal correlations between numeric variables',
+  'reasoning.map': 'A map shows how values are distributed geographically',
+  'reasoning.default': 'This visualization fits the analyzed data',
+  'reasoning.because': '{reasoning}: {reasons}',
+
+  'factor.timeSeries': 'the data is a time series',
+  'factor.timeQuestion': 'the question asks about growth or months',
+  'factor.geographic': 'there are geographic columns',
+  'factor.stateOrCountry': 'the question asks for states or countries',
+  'factor.categories': 'there are categories to compare',
+  'factor.proportion': 'the question asks about proportions',
+  'factor.ranking': 'the question asks for a ranking',
+  'factor.numericalComparison': 'there are two numeric measures to relate',
+  'factor.feedback': 'users picked this chart for similar data and questions',
+  'factor.feedbackRejected': 'users dismissed this chart for similar data and questions',
+
+  'title.by': '{measure} by {dimension}',
+  'title.byTwo': '{measure} by {dimension} and {series}',
+  'title.overTime': '{measure} over time',
+  'title.bySeriesOverTime': '{measure} by {series} over time',
+  'title.volumeOverTime': '{measure} - Volume over time',
+  'title.distribution': 'Distribution of {measure}',
+  'title.byLocation': '{measure} by location',
+  'title.table': 'Data Table',
+
+  'aggregation.avg': 'average {measure}',
+  'aggregation.count': 'count of {measure}',
+  'aggregation.count_distinct': 'distinct {measure}',
+  'aggregation.min': 'minimum {measure}',
+  'aggregation.max': 'maximum {measure}',
+  'aggregation.median': 'median {measure}',
+
+  'label.trendLine': 'Linear trend',
+  'label.forecast': 'Forecast',
+  'label.forecastLower': 'Lower bound ({confidence}%)',
+  'label.forecastUpper': 'Upper bound ({confidence}%)',
+  'label.others': 'Others',
+  'label.growthPercent': 'Growth %',
+  'card.growth': 'Growth {from}→{to}',
+
+  'narrative.points': 'Data points analyzed: {count}.',
+  'narrative.records': 'Total records: {count}.',
+  'narrative.categories': 'Categories/Periods: {count}.',
+  'narrative.stats': 'Average: {avg}; Max: {max} ({maxLabel}); Min: {min} ({minLabel}).',
+  'narrative.series': '{count} series were compared (e.g. {first} vs {second}).',
+  'narrative.recentChange': 'Recent change: {value}.',
+  'narrative.aggregation': 'Values computed as {measure}.',
+  'narrative.forecast': '{horizon}-period projection from the {model} model.',
+  'narrative.anomalyAbove': '{label} was {percent}% above expected.',
+  'narrative.anomalyBelow': '{label} was {percent}% below expected.',
+  'narrative.correlation': 'Correlation between {x} and {y}: Pearson {pearson} ({description})',
+
+  'insight.concentration': '{count} of {total} categories account for {percent}% of the total ({labels}).',
+  'insight.evenness.even': 'Values are evenly spread across categories (evenness {index}).',
+  'insight.evenness.moderate': 'Moderately concentrated distribution (evenness {index}).',
+  'insight.evenness.uneven': 'Highly uneven distribution across categories (evenness {index}).',
+  'insight.trendUp': 'Upward trend: {slope} per period ({percent}% of the mean).',
+  'insight.trendDown': 'Downward trend: {slope} per period ({percent}% of the mean).',
+  'insight.trendFlat': 'No clear trend over the period.',
+  'insight.moverUp': 'Biggest rise: {from} → {to} ({change}).',
+  'insight.moverDown': 'Biggest drop: {from} → {to} ({change}).',
+  'insight.contributor': '{label} was the series that changed the most from {from} to {to} ({change}).',
+
+  'a11y.categories': '{heading}. {count} categories; highest value in {maxLabel} ({max}) and lowest in {minLabel} ({min}).',
+  'a11y.periods': '{heading}. {count} periods from {first} to {last}, going from {start} to {end}.',
+  'a11y.points': '{heading}. {count} points.',
+  'a11y.table': 'Table with {rows} rows and {columns} columns: {names}.',
+  'a11y.generic': '{heading}.',
+  'a11y.series': '{label}: {values}.',
+  'a11y.more': 'and {count} more',
+
+  'correlation.strong': 'strong',
+  'correlation.moderate': 'moderate',
+  'correlation.weak': 'weak',
+  'correlation.veryWeak': 'very weak',
+  'correlation.positive': 'positive',
+  'correlation.negative': 'negative',
+};
+
+const es: Partial<Record<MessageKey, string>> = {
+  'chart.bar_chart.title': 'Gráfico de Barras',
+  'chart.bar_chart.description': 'Ideal para comparar valores entre categorías',
+  'chart.line_chart.title': 'Gráfico de Líneas',
+  'chart.line_chart.description': 'Perfecto para mostrar tendencias a lo largo del tiempo',
+  'chart.pie_chart.title': 'Gráfico Circular',
+  'chart.pie_chart.description': 'Excelente para mostrar proporciones de un total',
+  'chart.area_chart.title': 'Gráfico de Área',
+  'chart.area_chart.description': 'Bueno para mostrar volumen y tendencias',
+  'chart.scatter_plot.title': 'Gráfico de Dispersión',
+  'chart.scatter_plot.description': 'Ideal para correlacionar dos variables numéricas',
+  'chart.horizontal_bar.title': 'Gráfico de Barras Horizontales',
+  'chart.horizontal_bar.description': 'Bueno para rankings y comparaciones',
+  'chart.table.title': 'Tabla',
+  'chart.table.description': 'Presenta todos los datos de forma organizada',
+  'chart.map.title': 'Mapa',
+  'chart.map.description': 'Ideal para datos geográficos',
+
+  'reasoning.bar_chart': 'El gráfico de barras es perfecto para comparar valores entre categorías',
+  'reasoning.line_chart': 'El gráfico de líneas es ideal para mostrar tendencias a lo largo del tiempo',
+  'reasoning.area_chart': 'El gráfico de área destaca el volumen acumulado y la evolución temporal',
+  'reasoning.pie_chart': 'El gráfico circular muestra la proporción de cada categoría en el total',
+  'reasoning.horizontal_bar': 'El gráfico de barras horizontales es ideal para rankings y comparaciones',
+  'reasoning.scatter_plot': 'El gráfico de dispersión ayuda a visualizar correlaciones entre variables numéricas',
+  'reasoning.map': 'El mapa muestra la distribución geográfica de los valores',
+  'reasoning.default': 'Esta visualización es adecuada para los datos analizados',
+  'reasoning.because': '{reasoning}: {reasons}',
+
+  'factor.timeSeries': 'los datos forman una serie temporal',
+  'factor.timeQuestion': 'la pregunta habla de crecimiento o de meses',
+  'factor.geographic': 'hay columnas geográficas',
+  'factor.stateOrCountry': 'la pregunta pide estados o países',
+  'factor.categories': 'hay categorías para comparar',
+  'factor.proportion': 'la pregunta habla de proporciones',
+  'factor.ranking': 'la pregunta pide un ranking',
+  'factor.numericalComparison': 'hay dos medidas numéricas para relacionar',
+  'factor.feedback': 'los usuarios eligieron este gráfico para datos y preguntas similares',
+  'factor.feedbackRejected': 'los usuarios descartaron este gráfico para datos y preguntas similares',
+
+  'title.by': '{measure} por {dimension}',
+  'title.byTwo': '{measure} por {dimension} y {series}',
+  'title.overTime': '{measure} a lo largo del tiempo',
+  'title.bySeriesOverTime': '{measure} por {series} a lo largo del tiempo',
+  'title.volumeOverTime': '{measure} - Volumen a lo largo del tiempo',
+  'title.distribution': 'Distribución de {measure}',
+  'title.byLocation': '{measure} por ubicación',
+  'title.table': 'Tabla de Datos',
+
+  'aggregation.avg': 'promedio de {measure}',
+  'aggregation.count': 'conteo de {measure}',
+  'aggregation.count_distinct': '{measure} distintos',
+  'aggregation.min': 'mínimo de {measure}',
+  'aggregation.max': 'máximo de {measure}',
+  'aggregation.median': 'mediana de {measure}',
+
+  'label.trendLine': 'Tendencia lineal',
+  'label.forecast': 'Pronóstico',
+  'label.forecastLower': 'Límite inferior ({confidence}%)',
+  'label.forecastUpper': 'Límite superior ({confidence}%)',
+  'label.others': 'Otros',
+  'label.growthPercent': 'Crecimiento %',
+  'card.growth': 'Crecimiento {from}→{to}',
+
+  'narrative.points': 'Total de puntos analizados: {count}.',
+  'narrative.records': 'Total de registros: {count}.',
+  'narrative.categories': 'Categorías/Períodos: {count}.',
+  'narrative.stats': 'Promedio: {avg}; Máx: {max} ({maxLabel}); Mín: {min} ({minLabel}).',
+  'narrative.series': 'Se compararon {count} series (p. ej.: {first} vs {second}).',
+  'narrative.recentChange': 'Variación reciente: {value}.',
+  'narrative.aggregation': 'Valores calculados como {measure}.',
+  'narrative.forecast': 'Proyección de {horizon} períodos con el modelo {model}.',
+  'narrative.anomalyAbove': '{label} quedó {percent}% por encima de lo esperado.',
+  'narrative.anomalyBelow': '{label} quedó {percent}% por debajo de lo esperado.',
+  'narrative.correlation': 'Correlación entre {x} y {y}: Pearson {pearson} ({description})',
+
+  'insight.concentration': '{count} de {total} categorías concentran el {percent}% del total ({labels}).',
+  'insight.evenness.even': 'Valores bien distribuidos entre las categorías (equidad {index}).',
+  'insight.evenness.moderate': 'Distribución moderadamente concentrada (equidad {index}).',
+  'insight.evenness.uneven': 'Distribución muy desigual entre las categorías (equidad {index}).',
+  'insight.trendUp': 'Tendencia al alza: {slope} por período ({percent}% de la media).',
+  'insight.trendDown': 'Tendencia a la baja: {slope} por período ({percent}% de la media).',
+  'insight.trendFlat': 'Sin tendencia clara en el período.',
+  'insight.moverUp': 'Mayor alza: {from} → {to} ({change}).',
+  'insight.moverDown': 'Mayor caída: {from} → {to} ({change}).',
+  'insight.contributor': '{label} fue la serie que más varió de {from} a {to} ({change}).',
+
+  'a11y.categories': '{heading}. {count} categorías; valor más alto en {maxLabel} ({max}) y más bajo en {minLabel} ({min}).',
+  'a11y.periods': '{heading}. {count} períodos de {first} a {last}, pasando de {start} a {end}.',
+  'a11y.points': '{heading}. {count} puntos.',
+  'a11y.table': 'Tabla con {rows} filas y {columns} columnas: {names}.',
+  'a11y.generic': '{heading}.',
+  'a11y.series': '{label}: {values}.',
+  'a11y.more': 'y {count} más',
+
+  'correlation.strong': 'fuerte',
+  'correlation.moderate': 'moderada',
+  'correlation.weak': 'débil',
+  'correlation.veryWeak': 'muy débil',
+  'correlation.positive': 'positiva',
+  'correlation.negative': 'negativa',
+};
+
+const catalogs: Record<SupportedLocale, Partial<Record<MessageKey, string>>> = { 'pt-BR': ptBR, en, es };
+
+// Exact match, then language match (en-US -> en, pt-PT -> pt-BR), then the default locale
+export function resolveLocale(requested?: string | null): SupportedLocale {
+  if (!requested) return DEFAULT_LOCALE;
+  const normalized = requested.trim().replace('_', '-').toLowerCase();
+  const exact = SUPPORTED_LOCALES.find(l => l.toLowerCase() === normalized);
+  if (exact) return exact;
+  const language = normalized.split('-')[0];
+  return SUPPORTED_LOCALES.find(l => l.toLowerCase().split('-')[0] === language) || DEFAULT_LOCALE;
+}
+
+// Missing keys fall back to the default catalog
+export function t(locale: SupportedLocale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = catalogs[locale]?.[key] ?? ptBR[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+// Same message in every supported locale, for LocalizedText fields
+export function localized(key: MessageKey, params: Record<string, string | number> = {}): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const locale of SUPPORTED_LOCALES) result[locale] = t(locale, key, params);
+  return result;
+}
+
+export type IntentKeyword = keyof QuestionIntents | 'month' | 'proportion' | 'stateOrCountry';
+
+// Lowercase words and phrases matched on word boundaries; a trailing '*' marks a stem
+const lexicon: Record<SupportedLocale, Record<IntentKeyword, string[]>> = {
+  'pt-BR': {
+    growth: ['crescimento', 'growth', 'variação', 'variacao', 'evolução', 'evolucao', 'aumento', 'queda', 'diferença', 'diferenca', 'comparar mês', 'comparar mes'],
+    trend: ['tendência*', 'tendencia*', 'ao longo', 'linha do tempo', 'timeline'],
+    distribution: ['proporção', 'proporcao', 'distribuição', 'distribuicao', 'percentual', 'participação', 'participacao'],
+    ranking: ['top', 'ranking', 'maiores', 'menores', 'ordenar'],
+    correlation: ['correlação', 'correlacao', 'relação', 'relacao', 'impacto', 'influência', 'influencia'],
+    geographic: ['por estado', 'por país', 'por pais', 'por uf', 'mapa*'],
+    forecast: ['projeção', 'projecao', 'previsão', 'previsao', 'projetar', 'prever', 'próximos meses', 'proximos meses'],
+    month: ['mês', 'month*'],
+    proportion: ['propor*', 'percent*'],
+    stateOrCountry: ['por estado', 'por país', 'por pais', 'mapa*'],
+  },
+  en: {
+    growth: ['growth', 'change*', 'increase*', 'decrease*', 'decline*', 'difference*', 'month over month'],
+    trend: ['trend*', 'over time', 'timeline'],
+    distribution: ['proportion*', 'distribution*', 'percentage*', 'share', 'breakdown*'],
+    ranking: ['top', 'rank*', 'largest', 'biggest', 'smallest', 'sort*'],
+    correlation: ['correlat*', 'relationship*', 'impact*', 'influence*'],
+    geographic: ['by state', 'by country', 'map', 'maps'],
+    forecast: ['forecast*', 'projection*', 'predict*', 'outlook', 'next months'],
+    month: ['month*'],
+    proportion: ['proportion*', 'percent*', 'share'],
+    stateOrCountry: ['by state', 'by country', 'map', 'maps'],
+  },
+  es: {
+    growth: ['crecimiento', 'variación', 'variacion', 'evolución', 'evolucion', 'aumento', 'caída', 'caida', 'diferencia'],
+    trend: ['tendencia*', 'a lo largo', 'línea de tiempo'],
+    distribution: ['proporción', 'proporcion', 'distribución', 'distribucion', 'porcentaje', 'participación', 'participacion'],
+    ranking: ['top', 'ranking', 'mayores', 'menores', 'ordenar'],
+    correlation: ['correlación', 'correlacion', 'relación', 'relacion', 'impacto', 'influencia'],
+    geographic: ['por estado', 'por país', 'por pais', 'por provincia', 'mapa*'],
+    forecast: ['proyección', 'proyeccion', 'pronóstico', 'pronostico', 'previsión', 'prevision', 'próximos meses'],
+    month: ['mes', 'meses'],
+    proportion: ['proporci*', 'porcentaje*', 'percent*'],
+    stateOrCountry: ['por estado', 'por país', 'por pais', 'por provincia', 'mapa*'],
+  },
+};
+
+// Keywords of the requested locale plus the default locale's (questions often mix both)
+export function keywordsFor(locale: SupportedLocale, intent: IntentKeyword): string[] {
+  const own = lexicon[locale][intent];
+  return locale === DEFAULT_LOCALE ? own : [...own, ...lexicon[DEFAULT_LOCALE][intent]];
+}
+
+// Whole-word match of a keyword or phrase in a lowercased question ('top' doesn't fire on
+// "laptop", 'mes' doesn't on "mesa")
+export function mentions(question: string, locale: SupportedLocale, intent: IntentKeyword): boolean {
+  return keywordsFor(locale, intent).some(k => keywordPattern(k).test(question));
+}
+
+const keywordPatterns = new Map<string, RegExp>();
+
+// Letters and digits around the match break it; a stem ending in '*' may run on ('propor*'
+// matches "proporção" and "proportional")
+function keywordPattern(keyword: string): RegExp {
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    const stem = keyword.endsWith('*');
+    const body = (stem ? keyword.slice(0, -1) : keyword).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    pattern = new RegExp(`(?<![\\p{L}\\p{N}])${body}${stem ? '' : '(?![\\p{L}\\p{N}])'}`, 'u');
+    keywordPatterns.set(keyword, pattern);
+  }
+  return pattern;
+}
@@ -1,3 +1,23 @@
-export { AutoChartingEngine } from './auto-charting';
-export { ChartSuggestion, ChartType, DataStructure } from './types';
-export { generateChartConfig } from './chart-generator';
+export { AutoChartingEngine, AutoChartingEngineOptions } from './auto-charting';
+export { ChartRegistry, createDefaultRegistry } from './chart-registry';
+export { builtInChartPlugins } from './builtin-charts';
+export { ChartSuggestion, ChartType, ChartTypeId, ChartPlugin, ChartContext, LocalizedText, SuggestOptions, DataStructure, ColumnSchema, ColumnSchemaEntry, ColumnRole, AggregationFunction, ForecastModel, ForecastOptions, DataLimits, ChartDescription, ConfidenceBreakdown, ConfidenceFactor, ScoreFeature, ScoringOptions, FeedbackAction, FeedbackInput, FeedbackKey, FeedbackRecord, FeedbackStore, ChartPreference, LearnedPreference, ChartFormats, ValueFormat, ValueUnit, PatternShape, Theme, ThemeMode, ThemeOverrides, ThemeSelection, Insight, InsightType, InsightSeverity, TableConfig, Dashboard, DashboardPanel } from './types';
+export { generateChartConfig, generateMapChartConfig } from './chart-generator';
+export { composeDashboard, DashboardOptions } from './dashboard';
+export { AGGREGATION_FUNCTIONS, aggregateValues, aggregationFromQuestion, topNFromQuestion } from './aggregation';
+export { forecastSeries, ForecastResult } from './forecast';
+export { generateInsights, rankInsights } from './insights';
+export { profileColumns, DEFAULT_DATA_LIMITS, ColumnProfile, DataProfile } from './profile';
+export { lttbIndices, strideIndices } from './downsample';
+export { parseTemporal, buildTimeAxis, sortChronologically } from './time';
+export { resolveLocale, t, SupportedLocale } from './i18n';
+export { exportChartConfig, toVegaLite, toECharts, ExportFormat, ExportResult, ExportWarning, EXPORT_WARNINGS } from './exporters';
+export { renderChart, renderChartSvg, renderQuestion, RenderOptions, RenderQuestionOptions, RenderResult, PngUnavailableError } from './render';
+export { validateSuggestRequest, validateRenderRequest, validateFeedbackRequest, RequestValidationError, ErrorCode, ERROR_CODES, ValidationLimits, DEFAULT_VALIDATION_LIMITS } from './validation';
+export { buildOpenApiDocument } from './openapi';
+export { parseCsv, parseNdjson, parsePayload, payloadFormatFor, coerceValue, CsvOptions, PayloadFormat, PayloadParseError } from './ingest';
+export { applyAccessibleStyling, describeChart, COLORBLIND_SAFE_PALETTE, PATTERN_SHAPES, DASH_STYLES } from './accessibility';
+export { registerTheme, getTheme, listThemes, resolveTheme, LIGHT_THEME, DARK_THEME, COLORBLIND_THEME, DEFAULT_THEME } from './theme';
+export { formatValue, formatReadable, hydrateChartConfig, detectUnit, formatForUnit } from './formatters';
+export { scoreChart, weighFeatures, explainConfidence, DEFAULT_BASE_CONFIDENCE } from './scoring';
+export { MemoryFeedbackStore, FileFeedbackStore, fingerprintStructure, intentOf, preferenceAdjustments, learnedPreferences, MAX_FEEDBACK_ADJUSTMENT } from './feedback';
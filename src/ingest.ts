@@ -0,0 +1,194 @@
+import { DataPoint } from './types';
+
+export type PayloadFormat = 'json' | 'csv' | 'ndjson';
+
+export interface CsvOptions {
+  // Detected from the first lines when omitted (comma, semicolon, tab or pipe)
+  delimiter?: string;
+  // Whether the first line holds column names; detected when omitted
+  header?: boolean;
+}
+
+const CSV_TYPES = ['text/csv', 'application/csv'];
+const NDJSON_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl'];
+// Content types read as raw text and parsed here
+export const TEXT_PAYLOAD_TYPES = [...CSV_TYPES, ...NDJSON_TYPES];
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+// Lines inspected when detecting the delimiter and the header
+const DETECTION_LINES = 20;
+
+// Thrown for rows the parsers cannot read; `line` is 1-based
+export class PayloadParseError extends Error {
+  constructor(readonly format: PayloadFormat, readonly line: number, message: string) {
+    super(`${format.toUpperCase()} line ${line}: ${message}`);
+    this.name = 'PayloadParseError';
+  }
+}
+
+// Payload format for a Content-Type header ("text/csv; charset=utf-8" -> csv)
+export function payloadFormatFor(contentType?: string): PayloadFormat | null {
+  const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (CSV_TYPES.includes(mime)) return 'csv';
+  if (NDJSON_TYPES.includes(mime)) return 'ndjson';
+  if (mime === 'application/json' || mime.endsWith('+json')) return 'json';
+  return null;
+}
+
+export function parsePayload(text: string, format: PayloadFormat, options: CsvOptions = {}): DataPoint[] {
+  switch (format) {
+    case 'csv': return parseCsv(text, options);
+    case 'ndjson': return parseNdjson(text);
+    case 'json': {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed : parsed?.data;
+    }
+  }
+}
+
+// One JSON object per line; blank lines are skipped
+export function parseNdjson(text: string): DataPoint[] {
+  const rows: DataPoint[] = [];
+  stripBom(text).split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new PayloadParseError('ndjson', i + 1, 'not valid JSON');
+    }
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new PayloadParseError('ndjson', i + 1, 'expected a JSON object');
+    }
+    rows.push(row as DataPoint);
+  });
+  return rows;
+}
+
+export function parseCsv(text: string, options: CsvOptions = {}): DataPoint[] {
+  const body = stripBom(text);
+  const delimiter = options.delimiter || detectDelimiter(body);
+  const records = splitCsvRecords(body, delimiter).filter(r => !(r.fields.length === 1 && r.fields[0] === ''));
+  if (records.length === 0) return [];
+
+  const header = options.header ?? detectHeader(records.slice(0, DETECTION_LINES).map(r => r.fields));
+  const width = Math.max(...records.slice(0, DETECTION_LINES).map(r => r.fields.length));
+  const names = header ? uniqueNames(records[0].fields) : Array.from({ length: width }, (_, i) => `column_${i + 1}`);
+  // Semicolon files come from locales that write decimals with a comma ("1.234,56")
+  const decimalComma = delimiter === ';';
+
+  return (header ? records.slice(1) : records).map(record => {
+    if (record.fields.length > names.length) {
+      throw new PayloadParseError('csv', record.line, `expected ${names.length} fields, found ${record.fields.length}`);
+    }
+    const row: DataPoint = {};
+    names.forEach((name, i) => {
+      row[name] = coerceValue(record.fields[i] ?? '', decimalComma);
+    });
+    return row;
+  });
+}
+
+// Typed value for a raw CSV field, so column type detection sees numbers and booleans
+export function coerceValue(raw: string, decimalComma = false): string | number | boolean | null {
+  const value = raw.trim();
+  if (value === '') return null;
+  const lower = value.toLowerCase();
+  if (lower === 'true' || lower === 'false') return lower === 'true';
+  // Leading zeros are codes (CEP, product ids), not quantities
+  if (/^-?0\d/.test(value)) return value;
+  // With a decimal comma, '1.234' is a thousands separator, so that pattern goes first
+  if (decimalComma && /^-?\d{1,3}(\.\d{3})*(,\d+)?$|^-?\d+(,\d+)?$/.test(value)) {
+    return Number(value.replace(/\./g, '').replace(',', '.'));
+  }
+  if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+// The delimiter that splits the first lines into the same (largest) number of fields
+function detectDelimiter(text: string): string {
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = splitCsvRecords(text, delimiter, DETECTION_LINES).map(r => r.fields.length);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const consistent = counts.filter(c => c === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// A header has only distinct, non-numeric names, and some column below it holds numbers
+function detectHeader(rows: string[][]): boolean {
+  const [first, ...rest] = rows;
+  const isNumber = (v: string) => typeof coerceValue(v, true) === 'number';
+  if (first.some(v => v.trim() === '' || isNumber(v))) return false;
+  if (new Set(first.map(v => v.trim())).size !== first.length) return false;
+  if (rest.length === 0) return true;
+  // All-text files: a header if its values never repeat below
+  return first.some((_, i) => rest.some(r => isNumber(r[i] ?? ''))) || first.every((v, i) => rest.every(r => r[i] !== v));
+}
+
+function uniqueNames(fields: string[]): string[] {
+  const seen = new Map<string, number>();
+  return fields.map((field, i) => {
+    const name = field.trim() || `column_${i + 1}`;
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count ? `${name}_${count + 1}` : name;
+  });
+}
+
+// RFC 4180 records: quoted fields may hold delimiters, doubled quotes and line breaks
+function splitCsvRecords(text: string, delimiter: string, maxRecords = Infinity): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted && records.length < maxRecords) throw new PayloadParseError('csv', recordLine, 'unterminated quoted field');
+  if ((field !== '' || fields.length > 0) && records.length < maxRecords) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+  return records;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
@@ -0,0 +1,214 @@
+import { Insight, InsightSeverity, SupportedLocale, ValueFormat } from './types';
+import { t } from './i18n';
+import { formatReadable, formatValue } from './formatters';
+import { describeCorrelation, linearRegression, mean } from './statistics';
+
+// Share of the total the top contributors must reach (Pareto 80/20)
+const PARETO_SHARE = 0.8;
+// Relative slope (% of the mean per period) below which a series counts as flat
+const FLAT_SLOPE_PERCENT = 1;
+const SEVERITY_ORDER: Record<InsightSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+// Structured findings for a generated (and enriched) chart config
+export function generateInsights(config: any, locale: SupportedLocale): Insight[] {
+  const meta = config?.meta || {};
+  const insights: Insight[] = [];
+
+  if (meta.correlation) {
+    const correlation = correlationInsight(meta.correlation, locale);
+    if (correlation) insights.push(correlation);
+  } else if (Array.isArray(config?.data?.datasets?.[0]?.data)) {
+    // Projected periods are not observations
+    const observed = (config.data.labels || []).length - (meta.forecast?.horizon || 0);
+    const labels: string[] = (config.data.labels || []).slice(0, observed);
+    const values: number[] = config.data.datasets[0].data.slice(0, observed).map((v: any) => Number(v || 0));
+    // Changes are shown in the unit of the plotted values
+    const format: ValueFormat = config.formats?.value || { style: 'number', locale };
+
+    if (meta.time) {
+      insights.push(...[trendInsight(labels, values, format, locale), ...moverInsights(labels, values, format, locale), contributorInsight(config, observed, format, locale)]
+        .filter((i): i is Insight => i !== null));
+    } else {
+      insights.push(...[concentrationInsight(labels, values, meta.topN?.folded || 0, locale), evennessInsight(values, locale)]
+        .filter((i): i is Insight => i !== null));
+    }
+  }
+
+  for (const annotation of meta.annotations || []) {
+    if (annotation.type !== 'anomaly' || annotation.deviationPercent === null) continue;
+    const key = annotation.direction === 'above' ? 'narrative.anomalyAbove' : 'narrative.anomalyBelow';
+    insights.push({
+      type: 'anomaly',
+      severity: Math.abs(annotation.deviationPercent) >= 50 ? 'high' : 'medium',
+      text: t(locale, key, { label: annotation.label, percent: Math.abs(Math.round(annotation.deviationPercent)) }),
+      labels: [annotation.label],
+      value: annotation.deviationPercent,
+    });
+  }
+
+  if (meta.forecast) {
+    insights.push({
+      type: 'forecast',
+      severity: 'low',
+      text: t(locale, 'narrative.forecast', { horizon: meta.forecast.horizon, model: meta.forecast.model }),
+      labels: (config.data.labels || []).slice(meta.forecast.startIndex),
+    });
+  }
+
+  return insights;
+}
+
+// Most relevant first; equal severities keep their generation order
+export function rankInsights(insights: Insight[]): Insight[] {
+  return [...insights].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+// Fewest categories that add up to 80% of the total; only worth saying when they are at most half
+function concentrationInsight(labels: string[], values: number[], folded: number, locale: SupportedLocale): Insight | null {
+  if (values.length < 3 || values.some(v => v < 0)) return null;
+  const total = values.reduce((a, b) => a + b, 0);
+  if (total <= 0) return null;
+
+  // The folded "Outros" bucket stands for many categories, so it never counts as a top contributor
+  const candidates = labels
+    .map((label, i) => ({ label, value: values[i] }))
+    .filter((_, i) => !(folded && i === labels.length - 1))
+    .sort((a, b) => b.value - a.value);
+  const top: typeof candidates = [];
+  let cumulative = 0;
+  for (const candidate of candidates) {
+    if (cumulative >= total * PARETO_SHARE) break;
+    top.push(candidate);
+    cumulative += candidate.value;
+  }
+
+  const categories = folded ? values.length - 1 + folded : values.length;
+  const ratio = top.length / categories;
+  if (cumulative < total * PARETO_SHARE || ratio > 0.5) return null;
+
+  const percent = Math.round((cumulative / total) * 100);
+  return {
+    type: 'concentration',
+    severity: ratio <= 0.2 ? 'high' : 'medium',
+    text: t(locale, 'insight.concentration', { count: top.length, total: categories, percent, labels: top.map(c => c.label).join(', ') }),
+    labels: top.map(c => c.label),
+    value: percent,
+  };
+}
+
+// Pielou evenness: Shannon entropy of the shares over its maximum (1 = perfectly even)
+function evennessInsight(values: number[], locale: SupportedLocale): Insight | null {
+  if (values.length < 3 || values.some(v => v < 0)) return null;
+  const total = values.reduce((a, b) => a + b, 0);
+  if (total <= 0) return null;
+
+  const entropy = values.reduce((acc, v) => (v > 0 ? acc - (v / total) * Math.log(v / total) : acc), 0);
+  const index = Number((entropy / Math.log(values.length)).toFixed(2));
+  const level = index >= 0.9 ? 'even' : index >= 0.6 ? 'moderate' : 'uneven';
+  return {
+    type: 'evenness',
+    severity: level === 'uneven' ? 'medium' : 'low',
+    text: t(locale, `insight.evenness.${level}`, { index: decimal(index, 2, locale) }),
+    labels: [],
+    value: index,
+  };
+}
+
+function trendInsight(labels: string[], values: number[], format: ValueFormat, locale: SupportedLocale): Insight | null {
+  if (values.length < 3) return null;
+  const { slope, r2 } = linearRegression(values.map((_, i) => i), values);
+  const avg = mean(values);
+  const relative = avg !== 0 ? (slope / Math.abs(avg)) * 100 : 0;
+  const flat = Math.abs(relative) < FLAT_SLOPE_PERCENT || r2 < 0.3;
+  const key = flat ? 'insight.trendFlat' : slope > 0 ? 'insight.trendUp' : 'insight.trendDown';
+  return {
+    type: 'trend',
+    severity: flat ? 'low' : r2 >= 0.7 ? 'high' : 'medium',
+    text: t(locale, key, { slope: signed(slope, format), percent: decimal(Math.abs(relative), 1, locale) }),
+    labels: [labels[0], labels[labels.length - 1]],
+    value: Number(slope.toFixed(2)),
+  };
+}
+
+// Largest rise and largest drop between consecutive periods
+function moverInsights(labels: string[], values: number[], format: ValueFormat, locale: SupportedLocale): Array<Insight | null> {
+  let up = -1;
+  let down = -1;
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0 && (up < 0 || change > values[up] - values[up - 1])) up = i;
+    if (change < 0 && (down < 0 || change < values[down] - values[down - 1])) down = i;
+  }
+
+  const mover = (i: number, key: 'insight.moverUp' | 'insight.moverDown'): Insight | null => {
+    if (i < 0) return null;
+    const previous = values[i - 1];
+    const percent = previous !== 0 ? ((values[i] - previous) / Math.abs(previous)) * 100 : null;
+    return {
+      type: 'mover',
+      severity: percent !== null && Math.abs(percent) >= 20 ? 'medium' : 'low',
+      text: t(locale, key, { from: labels[i - 1], to: labels[i], change: formatChange(values[i] - previous, percent, format) }),
+      labels: [labels[i - 1], labels[i]],
+      value: Number((values[i] - previous).toFixed(2)),
+    };
+  };
+  return [mover(up, 'insight.moverUp'), mover(down, 'insight.moverDown')];
+}
+
+// Multi-series time charts: the series that changed the most between the last two periods
+function contributorInsight(config: any, observed: number, format: ValueFormat, locale: SupportedLocale): Insight | null {
+  if (!config.meta.encoding?.series || observed < 2) return null;
+  const labels: string[] = config.data.labels;
+  const datasets: any[] = config.data.datasets
+    .slice(0, config.meta.forecast?.datasetIndex ?? config.data.datasets.length)
+    .filter((ds: any) => !ds.yAxisID || ds.yAxisID === 'y');
+  if (datasets.length < 2) return null;
+
+  const changes = datasets.map(ds => {
+    const previous = Number(ds.data[observed - 2] || 0);
+    const change = Number(ds.data[observed - 1] || 0) - previous;
+    return { label: ds.label as string, change, percent: previous !== 0 ? (change / Math.abs(previous)) * 100 : null };
+  });
+  const top = changes.reduce((best, c) => (Math.abs(c.change) > Math.abs(best.change) ? c : best));
+  if (top.change === 0) return null;
+
+  return {
+    type: 'contributor',
+    severity: 'medium',
+    text: t(locale, 'insight.contributor', { label: top.label, from: labels[observed - 2], to: labels[observed - 1], change: formatChange(top.change, top.percent, format) }),
+    labels: [top.label],
+    value: Number(top.change.toFixed(2)),
+  };
+}
+
+function correlationInsight(correlation: any, locale: SupportedLocale): Insight | null {
+  if (correlation.pearson === null || correlation.pearson === undefined) return null;
+  const strength = Math.abs(correlation.pearson);
+  return {
+    type: 'correlation',
+    severity: strength >= 0.7 ? 'high' : strength >= 0.4 ? 'medium' : 'low',
+    text: t(locale, 'narrative.correlation', {
+      x: correlation.x,
+      y: correlation.y,
+      pearson: decimal(correlation.pearson, 2, locale),
+      description: describeCorrelation(correlation.pearson, locale),
+    }) + (correlation.spearman !== null ? t(locale, 'narrative.spearman', { spearman: decimal(correlation.spearman, 2, locale) }) : '.'),
+    labels: [correlation.x, correlation.y],
+    value: Number(correlation.pearson.toFixed(2)),
+  };
+}
+
+function signed(value: number, format: ValueFormat): string {
+  return formatReadable(value, { ...format, signed: true });
+}
+
+function formatChange(change: number, percent: number | null, format: ValueFormat): string {
+  return percent === null
+    ? signed(change, format)
+    : `${signed(change, format)}; ${formatValue(percent, { style: 'percent', signed: true, locale: format.locale })}`;
+}
+
+// Locale decimal separator, fixed decimals ("0,87")
+function decimal(value: number, decimals: number, locale: SupportedLocale): string {
+  return formatValue(value, { style: 'number', decimals, locale });
+}
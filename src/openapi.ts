@@ -0,0 +1,411 @@
+import { AGGREGATION_FUNCTIONS } from './aggregation';
+import { PATTERN_SHAPES } from './accessibility';
+import { listThemes } from './theme';
+import { EXPORT_FORMATS } from './exporters';
+import { MAX_RENDER_SIZE } from './render';
+import { DEFAULT_TABLE_PAGE_SIZE } from './chart-generator';
+import { DEFAULT_VALIDATION_LIMITS, ERROR_CODES, ValidationLimits } from './validation';
+
+const CHART_TYPES = ['bar_chart', 'line_chart', 'pie_chart', 'area_chart', 'scatter_plot', 'horizontal_bar', 'table', 'map'];
+const COLUMN_ROLES = ['measure', 'dimension', 'time', 'geo', 'identifier', 'currency', 'percent'];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonBody = (schema: object) => ({ required: true, content: { 'application/json': { schema } } });
+
+// JSON body, or the bare rows as CSV/NDJSON with the other fields in the query string
+const suggestBody = () => ({
+  required: true,
+  content: {
+    'application/json': { schema: ref('SuggestRequest') },
+    'text/csv': { schema: { type: 'string', description: 'Rows with an optional header line; delimiter and header are detected' } },
+    'application/x-ndjson': { schema: { type: 'string', description: 'One JSON object per line' } },
+  },
+});
+
+// Query parameters read when the body is CSV or NDJSON
+const rowsQueryParameters = [
+  { name: 'question', in: 'query', schema: { type: 'string' } },
+  { name: 'aggregation', in: 'query', schema: { type: 'string', enum: AGGREGATION_FUNCTIONS } },
+  { name: 'topN', in: 'query', schema: { type: 'integer', minimum: 1 } },
+  { name: 'forecast', in: 'query', schema: { type: 'boolean' } },
+  { name: 'accessible', in: 'query', schema: { type: 'boolean' } },
+  { name: 'units', in: 'query', schema: { type: 'string' }, description: 'Column units, e.g. receita:USD,pedidos:count' },
+  { name: 'theme', in: 'query', schema: { type: 'string' }, description: 'Registered theme name' },
+  { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1 }, description: 'Table page' },
+  { name: 'pageSize', in: 'query', schema: { type: 'integer', minimum: 1 }, description: 'Rows per table page' },
+  { name: 'delimiter', in: 'query', schema: { type: 'string', enum: [',', ';', '\\t', '|'] }, description: 'CSV only' },
+  { name: 'header', in: 'query', schema: { type: 'boolean' }, description: 'CSV only; whether the first line holds column names' },
+];
+
+const jsonResponse = (description: string, schema: object) => ({ description, content: { 'application/json': { schema } } });
+
+const errorResponses = {
+  400: jsonResponse('Invalid request body, CSV or NDJSON', ref('Error')),
+  413: jsonResponse('Body too large, or too many rows or columns', ref('Error')),
+  500: jsonResponse('Unexpected failure', ref('Error')),
+};
+
+// OpenAPI 3 description of the HTTP server (served at GET /openapi.json)
+export function buildOpenApiDocument(limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS): Record<string, any> {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'askadb-dashboard-core',
+      version: '0.1.0',
+      description: 'Chart suggestions, dashboards and static renders for tabular query results.',
+    },
+    paths: {
+      '/suggest': {
+        post: {
+          summary: 'Rank chart suggestions for the rows and question',
+          parameters: [
+            { name: 'format', in: 'query', schema: { type: 'string', enum: EXPORT_FORMATS, default: 'chartjs' } },
+            { name: 'locale', in: 'query', schema: { type: 'string' } },
+            ...rowsQueryParameters,
+          ],
+          requestBody: suggestBody(),
+          responses: {
+            200: jsonResponse('Top suggestions, best first', {
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                format: { type: 'string', enum: EXPORT_FORMATS },
+                suggestions: { type: 'array', items: ref('ChartSuggestion') },
+              },
+            }),
+            ...errorResponses,
+          },
+        },
+      },
+      '/dashboard': {
+        post: {
+          summary: 'Compose KPIs, a primary chart, supporting charts and a narrative',
+          parameters: [{ name: 'locale', in: 'query', schema: { type: 'string' } }, ...rowsQueryParameters],
+          requestBody: suggestBody(),
+          responses: {
+            200: jsonResponse('Dashboard layout', {
+              type: 'object',
+              properties: { success: { type: 'boolean' }, dashboard: { type: 'object' } },
+            }),
+            ...errorResponses,
+          },
+        },
+      },
+      '/render': {
+        post: {
+          summary: 'Render a chart config, or the top suggestion for rows and a question, as SVG or PNG',
+          requestBody: jsonBody(ref('RenderRequest')),
+          responses: {
+            200: {
+              description: 'Rendered image',
+              content: { 'image/svg+xml': { schema: { type: 'string' } }, 'image/png': { schema: { type: 'string', format: 'binary' } } },
+            },
+            ...errorResponses,
+            501: jsonResponse('PNG output is not available on this server', ref('Error')),
+          },
+        },
+      },
+      '/feedback': {
+        post: {
+          summary: 'Record a suggestion the user picked or dismissed; rankings for similar data and questions learn from it',
+          parameters: [{ name: 'locale', in: 'query', schema: { type: 'string' } }],
+          requestBody: jsonBody(ref('FeedbackRequest')),
+          responses: {
+            201: jsonResponse('Stored record', { type: 'object', properties: { success: { type: 'boolean' }, record: ref('FeedbackRecord') } }),
+            ...errorResponses,
+          },
+        },
+        get: {
+          summary: 'Export the recorded feedback and the learned preferences',
+          responses: {
+            200: jsonResponse('Records and per-key preferences', {
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                records: { type: 'array', items: ref('FeedbackRecord') },
+                preferences: { type: 'array', items: ref('LearnedPreference') },
+              },
+            }),
+          },
+        },
+        delete: {
+          summary: 'Forget the learned preferences',
+          responses: {
+            200: jsonResponse('Number of records removed', { type: 'object', properties: { success: { type: 'boolean' }, removed: { type: 'integer' } } }),
+          },
+        },
+      },
+      '/health': {
+        get: {
+          summary: 'Liveness probe',
+          responses: { 200: jsonResponse('Service is up', { type: 'object', properties: { status: { type: 'string' }, service: { type: 'string' } } }) },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Row: { type: 'object', additionalProperties: true },
+        Rows: { type: 'array', items: ref('Row'), maxItems: limits.maxRows },
+        ColumnSchema: {
+          type: 'object',
+          description: 'Column roles/types known upstream, keyed by column name',
+          additionalProperties: {
+            oneOf: [
+              { type: 'string', enum: COLUMN_ROLES },
+              {
+                type: 'object',
+                properties: {
+                  role: { type: 'string', enum: COLUMN_ROLES },
+                  type: { type: 'string', enum: ['string', 'number', 'date', 'boolean'] },
+                  sqlType: { type: 'string' },
+                },
+              },
+            ],
+          },
+        },
+        ForecastOptions: {
+          type: 'object',
+          properties: {
+            horizon: { type: 'integer', minimum: 1 },
+            model: { type: 'string', enum: ['linear', 'holt-winters', 'auto'] },
+            confidence: { type: 'number', exclusiveMinimum: true, minimum: 0, exclusiveMaximum: true, maximum: 1 },
+          },
+        },
+        SuggestRequest: {
+          type: 'object',
+          required: ['data'],
+          properties: {
+            data: ref('Rows'),
+            question: { type: 'string', maxLength: limits.maxQuestionLength },
+            locale: { type: 'string', description: 'BCP 47 tag; overrides Accept-Language' },
+            schema: ref('ColumnSchema'),
+            aggregation: { type: 'string', enum: AGGREGATION_FUNCTIONS },
+            topN: { type: 'integer', minimum: 1 },
+            forecast: { oneOf: [{ type: 'boolean' }, ref('ForecastOptions')] },
+            accessible: { type: 'boolean', description: 'Colour-blind-safe palette with fill patterns and dash styles' },
+            units: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Unit per measure column: number, count, percent, currency or an ISO 4217 code (BRL, USD); detected from roles and column names otherwise',
+            },
+            theme: ref('ThemeSelection'),
+            page: { type: 'integer', minimum: 1, description: 'Page of table suggestions (1-based)' },
+            pageSize: { type: 'integer', minimum: 1, default: DEFAULT_TABLE_PAGE_SIZE, description: 'Rows per table page' },
+          },
+        },
+        ThemeSelection: {
+          description: `Registered theme name (built in: ${listThemes().join(', ')}) or overrides of one`,
+          oneOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              properties: {
+                extends: { type: 'string', default: 'light' },
+                name: { type: 'string' },
+                mode: { type: 'string', enum: ['light', 'dark'] },
+                palette: {
+                  type: 'object',
+                  properties: {
+                    categorical: { type: 'array', items: { type: 'string' }, minItems: 1 },
+                    sequential: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 },
+                    diverging: { type: 'array', items: { type: 'string' }, minItems: 3, maxItems: 3 },
+                  },
+                },
+                colors: {
+                  type: 'object',
+                  properties: Object.fromEntries(['background', 'text', 'muted', 'grid', 'reference', 'accent', 'anomaly', 'forecast'].map(key => [key, { type: 'string' }])),
+                },
+                font: { type: 'object', properties: { family: { type: 'string' }, size: { type: 'number' }, titleSize: { type: 'number' } } },
+              },
+            },
+          ],
+        },
+        RenderRequest: {
+          type: 'object',
+          description: `Either config, or data (at most ${limits.maxColumns} columns) with an optional question and chartType`,
+          properties: {
+            config: ref('ChartConfig'),
+            data: ref('Rows'),
+            question: { type: 'string', maxLength: limits.maxQuestionLength },
+            chartType: { type: 'string' },
+            width: { type: 'number', description: `Pixels, clamped to 100-${MAX_RENDER_SIZE}` },
+            height: { type: 'number', description: `Pixels, clamped to 100-${MAX_RENDER_SIZE}` },
+            theme: ref('ThemeSelection'),
+            format: { type: 'string', enum: ['svg', 'png'], default: 'svg' },
+            accessible: { type: 'boolean', description: 'Colour-blind-safe styling for data renders' },
+          },
+        },
+        Dataset: {
+          type: 'object',
+          required: ['label', 'data'],
+          properties: {
+            label: { type: 'string' },
+            data: { type: 'array', items: { oneOf: [{ type: 'number', nullable: true }, { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' }, r: { type: 'number' } } }] } },
+            type: { type: 'string' },
+            backgroundColor: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+            borderColor: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+            borderWidth: { type: 'number' },
+            borderDash: { type: 'array', items: { type: 'number' } },
+            fill: { oneOf: [{ type: 'boolean' }, { type: 'string' }] },
+            tension: { type: 'number' },
+            stack: { type: 'string' },
+            yAxisID: { type: 'string' },
+            pointStyle: { type: 'string' },
+            pattern: {
+              oneOf: [{ type: 'string', enum: PATTERN_SHAPES }, { type: 'array', items: { type: 'string', enum: PATTERN_SHAPES } }],
+              description: 'Fill pattern(s) of accessible configs',
+            },
+          },
+        },
+        ValueFormat: {
+          type: 'object',
+          required: ['style'],
+          properties: {
+            style: { type: 'string', enum: ['number', 'percent', 'currency', 'compact', 'date'], description: 'percent values are already percentages (12.5 -> 12.5%)' },
+            decimals: { type: 'integer', minimum: 0 },
+            currency: { type: 'string', description: 'ISO 4217 code (default BRL)' },
+            pattern: { type: 'string', description: 'Date pattern using yyyy, yy, MMM, MM, dd, HH, mm' },
+            locale: { type: 'string' },
+            compact: { type: 'boolean', description: 'Short form for large values (R$ 1,2 mi)' },
+            signed: { type: 'boolean' },
+          },
+        },
+        ChartConfig: {
+          type: 'object',
+          required: ['type'],
+          description: 'Chart.js-shaped config; tables use columns/rows instead of data',
+          properties: {
+            type: { type: 'string', description: `Built-in (${CHART_TYPES.join(', ')}) or plugin chart type` },
+            data: {
+              type: 'object',
+              properties: { labels: { type: 'array', items: { type: 'string' } }, datasets: { type: 'array', items: ref('Dataset') } },
+            },
+            geo: { type: 'object', description: 'Boundary set and feature bindings of map configs' },
+            options: { type: 'object', additionalProperties: true, description: 'Chart.js options without function callbacks' },
+            formats: {
+              type: 'object',
+              description: 'Tick and tooltip formats; hydrateChartConfig turns them into Chart.js callbacks',
+              properties: {
+                axes: { type: 'object', additionalProperties: ref('ValueFormat'), description: 'Format per scale id' },
+                value: ref('ValueFormat'),
+              },
+            },
+            meta: {
+              type: 'object',
+              description: 'Encoding, aggregation, time axis, cards, annotations, forecast, insights, narrative, accessibility (altText, longDescription) and the resolved theme',
+              additionalProperties: true,
+            },
+          },
+        },
+        ConfidenceBreakdown: {
+          type: 'object',
+          required: ['base', 'factors', 'raw', 'confidence'],
+          properties: {
+            base: { type: 'number', description: 'Confidence of a chart with no supporting evidence' },
+            factors: {
+              type: 'array',
+              description: 'Strongest contribution first',
+              items: {
+                type: 'object',
+                required: ['id', 'strength', 'weight', 'contribution', 'reason'],
+                properties: {
+                  id: { type: 'string' },
+                  strength: { type: 'number', minimum: 0, maximum: 1 },
+                  weight: { type: 'number' },
+                  contribution: { type: 'number', description: 'weight x strength' },
+                  reason: { type: 'string' },
+                },
+              },
+            },
+            raw: { type: 'number', description: 'base plus the contributions' },
+            confidence: { type: 'number', minimum: 0, maximum: 1, description: 'raw score with diminishing returns, so strong charts don\'t tie at 1' },
+          },
+        },
+        ChartSuggestion: {
+          type: 'object',
+          required: ['type', 'title', 'description', 'confidence', 'config', 'reasoning'],
+          properties: {
+            type: { type: 'string', description: `Built-in (${CHART_TYPES.join(', ')}) or plugin chart type` },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            confidenceBreakdown: ref('ConfidenceBreakdown'),
+            config: ref('ChartConfig'),
+            reasoning: { type: 'string', description: 'Why the chart fits, followed by the factors that raised its confidence' },
+            warnings: { type: 'array', items: { type: 'object' }, description: 'Export caveats when ?format is not chartjs' },
+            feedbackKey: ref('FeedbackKey'),
+          },
+        },
+        FeedbackKey: {
+          type: 'object',
+          required: ['fingerprint', 'intent'],
+          description: 'Kind of request: shape of the data (not the column names) and the question intents',
+          properties: { fingerprint: { type: 'string' }, intent: { type: 'string', description: "Intents joined with '+', or 'none'" } },
+        },
+        FeedbackRequest: {
+          type: 'object',
+          required: ['chartType', 'action'],
+          description: 'Send the suggestion\'s feedbackKey fields, or the data (and question) it was made for',
+          properties: {
+            chartType: { type: 'string' },
+            action: { type: 'string', enum: ['chosen', 'rejected'] },
+            rank: { type: 'integer', minimum: 1, description: 'Position of the suggestion in the list' },
+            fingerprint: { type: 'string' },
+            intent: { type: 'string' },
+            data: ref('Rows'),
+            question: { type: 'string', maxLength: limits.maxQuestionLength },
+            schema: ref('ColumnSchema'),
+          },
+        },
+        FeedbackRecord: {
+          allOf: [
+            ref('FeedbackKey'),
+            {
+              type: 'object',
+              required: ['chartType', 'action', 'at'],
+              properties: {
+                chartType: { type: 'string' },
+                action: { type: 'string', enum: ['chosen', 'rejected'] },
+                rank: { type: 'integer' },
+                at: { type: 'string', format: 'date-time' },
+              },
+            },
+          ],
+        },
+        LearnedPreference: {
+          allOf: [
+            ref('FeedbackKey'),
+            {
+              type: 'object',
+              properties: {
+                charts: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      chartType: { type: 'string' },
+                      chosen: { type: 'integer' },
+                      rejected: { type: 'integer' },
+                      adjustment: { type: 'number', description: 'Added to the confidence of this chart type' },
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+        Error: {
+          type: 'object',
+          required: ['success', 'code', 'error'],
+          properties: {
+            success: { type: 'boolean', enum: [false] },
+            code: { type: 'string', enum: ERROR_CODES },
+            error: { type: 'string', description: 'Human-readable message' },
+            field: { type: 'string', description: 'Offending body field, e.g. data[3] or forecast.horizon' },
+          },
+        },
+      },
+    },
+  };
+}
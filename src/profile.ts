@@ -0,0 +1,51 @@
+import { DataLimits, DataPoint } from './types';
+
+export const DEFAULT_DATA_LIMITS: DataLimits = {
+  maxDistinct: 1000,
+  maxSeriesPoints: 1000,
+  maxScatterPoints: 5000,
+};
+
+// Rows kept per column for type detection
+const TYPE_SAMPLE_SIZE = 10;
+
+export interface ColumnProfile {
+  // Raw values of the first rows, used to detect the column type
+  sample: unknown[];
+  // Distinct raw values, exact up to the limit; `maxDistinct + 1` means "more than the limit"
+  distinct: number;
+  nonNull: number;
+}
+
+export interface DataProfile {
+  rowCount: number;
+  columns: Record<string, ColumnProfile>;
+}
+
+// One pass over the rows for every column; distinct tracking stops once a column exceeds
+// `maxDistinct`, so memory stays bounded on million-row results
+export function profileColumns(data: DataPoint[], columns: string[], maxDistinct = DEFAULT_DATA_LIMITS.maxDistinct): DataProfile {
+  const seen = columns.map(() => new Set<unknown>());
+  const saturated = columns.map(() => false);
+  const profiles: ColumnProfile[] = columns.map(() => ({ sample: [], distinct: 0, nonNull: 0 }));
+
+  for (let r = 0; r < data.length; r++) {
+    const row = data[r];
+    for (let c = 0; c < columns.length; c++) {
+      const value = row[columns[c]];
+      const profile = profiles[c];
+      if (r < TYPE_SAMPLE_SIZE) profile.sample.push(value);
+      if (value !== null && value !== undefined && value !== '') profile.nonNull++;
+      if (!saturated[c]) {
+        seen[c].add(value);
+        if (seen[c].size > maxDistinct) saturated[c] = true;
+      }
+    }
+  }
+
+  const result: Record<string, ColumnProfile> = {};
+  columns.forEach((column, c) => {
+    result[column] = { ...profiles[c], distinct: seen[c].size };
+  });
+  return { rowCount: data.length, columns: result };
+}
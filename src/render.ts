@@ -0,0 +1,543 @@
+import { createRequire } from 'module';
+import { AutoChartingEngine } from './auto-charting';
+import { ChartConfig, ChartTypeId, DataPoint, PatternShape, ScatterPoint, SuggestOptions, TableConfig, Theme, ThemeSelection } from './types';
+import { DEFAULT_THEME, resolveTheme } from './theme';
+import { formatValue } from './formatters';
+import { extent } from './statistics';
+
+// Static SVG rendering of chart configs, in plain Node (no browser, no canvas), for email and
+// chat digests. PNG goes through the optional @resvg/resvg-js package when it is installed.
+
+export type RenderFormat = 'svg' | 'png';
+// Registered theme name or overrides; defaults to the theme the config was generated with
+export type RenderTheme = ThemeSelection;
+
+export interface RenderOptions {
+  width?: number;
+  height?: number;
+  theme?: RenderTheme;
+  format?: RenderFormat;
+}
+
+export interface RenderResult {
+  contentType: 'image/svg+xml' | 'image/png';
+  body: string | Buffer;
+}
+
+export interface RenderQuestionOptions extends RenderOptions, SuggestOptions {
+  // Render this chart type instead of the top suggestion
+  chartType?: ChartTypeId;
+}
+
+// Thrown when PNG output is requested but the optional converter is not installed
+export class PngUnavailableError extends Error {
+  constructor() {
+    super('PNG rendering requires the optional @resvg/resvg-js package');
+    this.name = 'PngUnavailableError';
+  }
+}
+
+export const DEFAULT_RENDER_WIDTH = 800;
+export const DEFAULT_RENDER_HEIGHT = 480;
+export const MAX_RENDER_SIZE = 4000;
+
+const FALLBACK_COLOR = '#3b82f6';
+
+type Dataset = ChartConfig['data']['datasets'][number];
+const EMPTY_DATASET: Dataset = { label: '', data: [] };
+
+// 8x8 tiles drawn over the fill colour for `dataset.pattern`
+const PATTERN_PATHS: Record<PatternShape, string> = {
+  diagonal: 'M0,8 L8,0 M-2,2 L2,-2 M6,10 L10,6',
+  dots: 'M3,4 a1,1 0 1,0 2,0 a1,1 0 1,0 -2,0',
+  cross: 'M0,4 H8 M4,0 V8',
+  horizontal: 'M0,4 H8',
+  vertical: 'M4,0 V8',
+  zigzag: 'M0,6 L2,2 L4,6 L6,2 L8,6',
+};
+
+export function renderChart(config: ChartConfig | TableConfig, options: RenderOptions = {}): RenderResult {
+  const svg = renderChartSvg(config, options);
+  if ((options.format || 'svg') === 'svg') {
+    return { contentType: 'image/svg+xml', body: svg };
+  }
+  return { contentType: 'image/png', body: svgToPng(svg, clampSize(options.width, DEFAULT_RENDER_WIDTH)) };
+}
+
+// Suggest a chart for a query result and render it
+export function renderQuestion(
+  engine: AutoChartingEngine,
+  data: DataPoint[],
+  originalQuestion?: string,
+  options: RenderQuestionOptions = {}
+): RenderResult {
+  const { chartType, width, height, format, ...suggestOptions } = options;
+  const { theme } = options;
+  const suggestion = chartType
+    ? engine.suggestChart(chartType, data, originalQuestion, {}, suggestOptions)
+    : engine.suggestCharts(data, originalQuestion, suggestOptions)[0];
+  return renderChart(suggestion.config, { width, height, theme, format });
+}
+
+export function renderChartSvg(config: ChartConfig | TableConfig, options: RenderOptions = {}): string {
+  const width = clampSize(options.width, DEFAULT_RENDER_WIDTH);
+  const height = clampSize(options.height, DEFAULT_RENDER_HEIGHT);
+  const theme = options.theme !== undefined ? resolveTheme(options.theme) : config.meta?.theme || DEFAULT_THEME;
+  const canvas = new Canvas(width, height, theme);
+  const accessibility = config.meta?.accessibility;
+  if (accessibility?.altText) canvas.describe(accessibility.altText, accessibility.longDescription);
+
+  const title = config.options?.plugins?.title?.text;
+  const top = title ? 40 : 16;
+  if (title) canvas.text(width / 2, 26, String(title), { size: theme.font.titleSize, weight: 'bold', anchor: 'middle' });
+
+  const plot: Box = { x: 56, y: top, width: width - 112, height: height - top - 56 };
+  if (isTableConfig(config)) {
+    drawTable(canvas, config, { x: 16, y: top, width: width - 32, height: height - top - 16 });
+    return canvas.toString();
+  }
+  switch (config.type) {
+    case 'pie_chart':
+      drawPie(canvas, config, plot);
+      break;
+    case 'scatter_plot':
+      if (isPointData(config)) drawScatter(canvas, config, plot);
+      else drawCartesian(canvas, config, plot);
+      break;
+    case 'map':
+      drawMap(canvas, config, plot);
+      break;
+    default:
+      drawCartesian(canvas, config, plot);
+  }
+  return canvas.toString();
+}
+
+// Converts with @resvg/resvg-js (an optional dependency), loaded lazily so SVG rendering
+// works without it
+function svgToPng(svg: string, width: number): Buffer {
+  let resvg: typeof import('@resvg/resvg-js');
+  try {
+    resvg = createRequire(__filename)('@resvg/resvg-js');
+  } catch {
+    throw new PngUnavailableError();
+  }
+  return new resvg.Resvg(svg, { fitTo: { mode: 'width', value: width } }).render().asPng();
+}
+
+function clampSize(value: number | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 100 ? Math.min(Math.round(n), MAX_RENDER_SIZE) : fallback;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TextStyle {
+  size?: number;
+  weight?: 'normal' | 'bold';
+  anchor?: 'start' | 'middle' | 'end';
+  color?: string;
+  rotate?: number;
+}
+
+class Canvas {
+  private parts: string[] = [];
+  private defs: string[] = [];
+  private patterns = new Map<string, string>();
+  private label?: { title: string; desc?: string };
+
+  readonly palette: Theme['colors'];
+
+  constructor(private width: number, private height: number, private theme: Theme) {
+    this.palette = theme.colors;
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: string, extra = ''): void {
+    this.parts.push(`<rect x="${r(x)}" y="${r(y)}" width="${r(Math.max(w, 0))}" height="${r(Math.max(h, 0))}" fill="${escapeXml(fill)}"${extra}/>`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke: string, extra = ''): void {
+    this.parts.push(`<line x1="${r(x1)}" y1="${r(y1)}" x2="${r(x2)}" y2="${r(y2)}" stroke="${escapeXml(stroke)}"${extra}/>`);
+  }
+
+  path(d: string, fill: string, stroke: string, extra = ''): void {
+    this.parts.push(`<path d="${d}" fill="${escapeXml(fill)}" stroke="${escapeXml(stroke)}"${extra}/>`);
+  }
+
+  circle(cx: number, cy: number, radius: number, fill: string, extra = ''): void {
+    this.parts.push(`<circle cx="${r(cx)}" cy="${r(cy)}" r="${r(radius)}" fill="${escapeXml(fill)}"${extra}/>`);
+  }
+
+  text(x: number, y: number, value: string, style: TextStyle = {}): void {
+    const transform = style.rotate ? ` transform="rotate(${style.rotate} ${r(x)} ${r(y)})"` : '';
+    this.parts.push(
+      `<text x="${r(x)}" y="${r(y)}" font-family="${escapeXml(this.theme.font.family)}" font-size="${escapeXml(String(style.size || this.theme.font.size))}" font-weight="${style.weight || 'normal'}"` +
+      ` text-anchor="${style.anchor || 'start'}" fill="${escapeXml(style.color || this.palette.text)}"${transform}>${escapeXml(value)}</text>`
+    );
+  }
+
+  // Alt text (<title>) and long description (<desc>) for screen readers
+  describe(title: string, desc?: string): void {
+    this.label = { title, desc };
+  }
+
+  // Fill for a colour, or a reference to a patterned tile of that colour
+  fill(color: string, pattern?: PatternShape): string {
+    if (!pattern || !PATTERN_PATHS[pattern]) return color;
+    const key = `${pattern}|${color}`;
+    if (!this.patterns.has(key)) {
+      const id = `pattern-${this.patterns.size}`;
+      this.patterns.set(key, id);
+      this.defs.push(`<pattern id="${id}" width="8" height="8" patternUnits="userSpaceOnUse">` +
+        `<rect width="8" height="8" fill="${escapeXml(color)}"/>` +
+        `<path d="${PATTERN_PATHS[pattern]}" fill="none" stroke="${escapeXml(this.palette.background)}" stroke-width="1.5"/></pattern>`);
+    }
+    return `url(#${this.patterns.get(key)})`;
+  }
+
+  toString(): string {
+    const a11y = this.label
+      ? ` role="img" aria-labelledby="chart-title${this.label.desc ? ' chart-desc' : ''}"`
+      : '';
+    const label = this.label
+      ? `<title id="chart-title">${escapeXml(this.label.title)}</title>${this.label.desc ? `<desc id="chart-desc">${escapeXml(this.label.desc)}</desc>` : ''}`
+      : '';
+    const defs = this.defs.length ? `<defs>${this.defs.join('')}</defs>` : '';
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}"${a11y}>` +
+      `${label}${defs}<rect width="100%" height="100%" fill="${escapeXml(this.palette.background)}"/>${this.parts.join('')}</svg>`;
+  }
+}
+
+// Cartesian charts: bars (grouped or stacked), lines, areas and combos on up to three y axes
+function drawCartesian(canvas: Canvas, config: ChartConfig, plot: Box): void {
+  const labels = config.data.labels || [];
+  const datasets = config.data.datasets || [];
+  const horizontal = config.type === 'horizontal_bar';
+  const stacked = Boolean(config.options?.scales?.x?.stacked || config.options?.scales?.y?.stacked);
+  const markOf = (ds: Dataset) => ds.type === 'line' ? 'line' : config.type === 'line_chart' ? 'line' : config.type === 'area_chart' ? 'area' : config.type === 'scatter_plot' ? 'point' : 'bar';
+
+  const legendHeight = datasets.length > 1 ? 20 : 0;
+  const area: Box = { ...plot, height: plot.height - legendHeight };
+
+  // One linear scale per axis id
+  const axisIds = Array.from(new Set(datasets.map(ds => ds.yAxisID || 'y')));
+  const scales = new Map<string, number[]>();
+  for (const id of axisIds) {
+    const members = datasets.filter(ds => (ds.yAxisID || 'y') === id);
+    const values: number[] = [0];
+    if (stacked) {
+      labels.forEach((_, i) => values.push(members.filter(ds => markOf(ds) === 'bar').reduce((acc, ds) => acc + num(ds.data[i]), 0)));
+    }
+    members.forEach(ds => (ds.data as Array<number | null>).forEach(v => v !== null && values.push(num(v))));
+    scales.set(id, niceTicks(...extent(values)));
+  }
+
+  const band = (horizontal ? area.height : area.width) / Math.max(labels.length, 1);
+  const valueExtent = horizontal ? area.width : area.height;
+  const toPixel = (id: string, value: number) => {
+    const ticks = scales.get(id)!;
+    const t = (value - ticks[0]) / (ticks[ticks.length - 1] - ticks[0] || 1);
+    return horizontal ? area.x + t * valueExtent : area.y + area.height - t * valueExtent;
+  };
+  // Declarative axis formats (percent axes, currency...) win over the compact default
+  const tickLabel = (id: string, value: number) => {
+    const format = config.formats?.axes?.[horizontal && id === 'y' ? 'x' : id];
+    return format ? formatValue(value, format) : formatTick(value);
+  };
+  const center = (i: number) => horizontal ? area.y + band * (i + 0.5) : area.x + band * (i + 0.5);
+
+  // Grid and primary axis ticks
+  const primaryId = axisIds.includes('y') ? 'y' : axisIds[0];
+  for (const tick of scales.get(primaryId)!) {
+    const p = toPixel(primaryId, tick);
+    if (horizontal) {
+      canvas.line(p, area.y, p, area.y + area.height, canvas.palette.grid);
+      canvas.text(p, area.y + area.height + 14, tickLabel(primaryId, tick), { anchor: 'middle', color: canvas.palette.muted });
+    } else {
+      canvas.line(area.x, p, area.x + area.width, p, canvas.palette.grid);
+      canvas.text(area.x - 6, p + 4, tickLabel(primaryId, tick), { anchor: 'end', color: canvas.palette.muted });
+    }
+  }
+  // Secondary axes on the right (or top for horizontal bars)
+  axisIds.filter(id => id !== 'y').forEach((id, n) => {
+    for (const tick of scales.get(id)!) {
+      const p = toPixel(id, tick);
+      if (horizontal) canvas.text(p, area.y - 4 - n * 12, tickLabel(id, tick), { anchor: 'middle', color: canvas.palette.muted });
+      else canvas.text(area.x + area.width + 6 + n * 40, p + 4, tickLabel(id, tick), { color: canvas.palette.muted });
+    }
+  });
+
+  // Category labels, thinned out when they would overlap
+  const every = Math.max(1, Math.ceil(labels.length / Math.max(1, Math.floor((horizontal ? area.height : area.width) / 40))));
+  labels.forEach((label, i) => {
+    if (i % every !== 0) return;
+    const text = truncate(label, horizontal ? 10 : 14);
+    if (horizontal) canvas.text(area.x - 6, center(i) + 4, text, { anchor: 'end' });
+    else canvas.text(center(i), area.y + area.height + 14, text, { anchor: labels.length > 8 ? 'end' : 'middle', rotate: labels.length > 8 ? -35 : 0 });
+  });
+
+  // Bars
+  const bars = datasets.filter(ds => markOf(ds) === 'bar');
+  const slot = stacked ? band * 0.7 : (band * 0.7) / Math.max(bars.length, 1);
+  const offsets = labels.map(() => 0);
+  bars.forEach((ds, k) => {
+    const id = ds.yAxisID || 'y';
+    labels.forEach((_, i) => {
+      const value = num(ds.data[i]);
+      const start = stacked ? offsets[i] : 0;
+      const end = start + value;
+      if (stacked) offsets[i] = end;
+      const color = fillAt(canvas, ds, i);
+      const from = toPixel(id, start);
+      const to = toPixel(id, end);
+      const pos = center(i) - band * 0.35 + (stacked ? 0 : k * slot);
+      if (horizontal) canvas.rect(Math.min(from, to), pos, Math.abs(to - from), slot, color);
+      else canvas.rect(pos, Math.min(from, to), slot, Math.abs(to - from), color);
+    });
+  });
+
+  // Lines, areas and points
+  for (const ds of datasets.filter(d => markOf(d) !== 'bar')) {
+    const id = ds.yAxisID || 'y';
+    const color = strokeAt(ds);
+    const points = labels
+      .map((_, i) => ds.data[i] === null || ds.data[i] === undefined ? null : [center(i), toPixel(id, num(ds.data[i]))])
+      .filter((p): p is number[] => p !== null);
+    if (points.length === 0) continue;
+    if (markOf(ds) === 'point') {
+      points.forEach(([x, y]) => canvas.circle(x, y, 4, color));
+      continue;
+    }
+    const d = points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${r(x)},${r(y)}`).join(' ');
+    if (markOf(ds) === 'area' || ds.fill === true) {
+      const base = toPixel(id, 0);
+      const first = points[0][0];
+      const last = points[points.length - 1][0];
+      canvas.path(`${d} L${r(last)},${r(base)} L${r(first)},${r(base)} Z`, canvas.fill(color, patternAt(ds, 0)), 'none', ' fill-opacity="0.2"');
+    }
+    const dash = ds.borderDash?.length ? ` stroke-dasharray="${escapeXml(ds.borderDash.join(' '))}"` : '';
+    canvas.path(d, 'none', color, ` stroke-width="${escapeXml(String(ds.borderWidth || 2))}"${dash}`);
+  }
+
+  if (legendHeight) drawLegend(canvas, datasets.map(ds => ({ label: ds.label, color: markOf(ds) === 'bar' ? fillAt(canvas, ds, 0) : strokeAt(ds) })), plot);
+}
+
+function drawPie(canvas: Canvas, config: ChartConfig, plot: Box): void {
+  const labels = config.data.labels || [];
+  const ds = config.data.datasets?.[0] || EMPTY_DATASET;
+  const values = labels.map((_, i) => Math.max(num(ds.data[i]), 0));
+  const total = values.reduce((a, b) => a + b, 0) || 1;
+  const radius = Math.min(plot.width * 0.6, plot.height) / 2 - 4;
+  const cx = plot.x + radius + 8;
+  const cy = plot.y + plot.height / 2;
+
+  let angle = -Math.PI / 2;
+  values.forEach((value, i) => {
+    const sweep = (value / total) * Math.PI * 2;
+    const color = fillAt(canvas, ds, i);
+    if (sweep >= Math.PI * 2 - 1e-9) {
+      canvas.circle(cx, cy, radius, color);
+    } else if (sweep > 0) {
+      const [x1, y1] = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+      const [x2, y2] = [cx + radius * Math.cos(angle + sweep), cy + radius * Math.sin(angle + sweep)];
+      canvas.path(`M${r(cx)},${r(cy)} L${r(x1)},${r(y1)} A${r(radius)},${r(radius)} 0 ${sweep > Math.PI ? 1 : 0} 1 ${r(x2)},${r(y2)} Z`, color, canvas.palette.background);
+    }
+    angle += sweep;
+  });
+
+  // Legend with shares, to the right of the pie
+  labels.forEach((label, i) => {
+    const y = plot.y + 12 + i * 18;
+    if (y > plot.y + plot.height) return;
+    canvas.rect(cx + radius + 24, y - 9, 10, 10, fillAt(canvas, ds, i));
+    canvas.text(cx + radius + 40, y, `${truncate(label, 24)} (${((values[i] / total) * 100).toFixed(1)}%)`);
+  });
+}
+
+function drawScatter(canvas: Canvas, config: ChartConfig, plot: Box): void {
+  const datasets = config.data.datasets || [];
+  const all = datasets.flatMap(ds => ds.data as ScatterPoint[]);
+  const xTicks = niceTicks(...extent(all.map(p => p.x)));
+  const yTicks = niceTicks(...extent(all.map(p => p.y)));
+  const legendHeight = datasets.length > 1 ? 20 : 0;
+  const area: Box = { ...plot, height: plot.height - legendHeight };
+  const sx = (x: number) => area.x + ((x - xTicks[0]) / (xTicks[xTicks.length - 1] - xTicks[0] || 1)) * area.width;
+  const sy = (y: number) => area.y + area.height - ((y - yTicks[0]) / (yTicks[yTicks.length - 1] - yTicks[0] || 1)) * area.height;
+
+  for (const tick of yTicks) {
+    canvas.line(area.x, sy(tick), area.x + area.width, sy(tick), canvas.palette.grid);
+    canvas.text(area.x - 6, sy(tick) + 4, formatTick(tick), { anchor: 'end', color: canvas.palette.muted });
+  }
+  for (const tick of xTicks) {
+    canvas.text(sx(tick), area.y + area.height + 14, formatTick(tick), { anchor: 'middle', color: canvas.palette.muted });
+  }
+  const encoding = config.meta?.encoding || {};
+  if (encoding.dimension) canvas.text(area.x + area.width, area.y + area.height + 30, encoding.dimension, { anchor: 'end', color: canvas.palette.muted });
+
+  for (const ds of datasets) {
+    const points = ds.data as ScatterPoint[];
+    if (ds.type === 'line') {
+      const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${r(sx(p.x))},${r(sy(p.y))}`).join(' ');
+      const dash = ds.borderDash?.length ? ` stroke-dasharray="${escapeXml(ds.borderDash.join(' '))}"` : '';
+      canvas.path(d, 'none', typeof ds.borderColor === 'string' ? ds.borderColor : canvas.palette.muted, ` stroke-width="2"${dash}`);
+      continue;
+    }
+    points.forEach(p => canvas.circle(sx(p.x), sy(p.y), p.r ?? 4, colorAt(ds, 0), ' fill-opacity="0.8"'));
+  }
+  if (legendHeight) drawLegend(canvas, datasets.map(ds => ({ label: ds.label, color: ds.type === 'line' ? strokeAt(ds) : colorAt(ds, 0) })), plot);
+}
+
+interface MapSymbol {
+  label: string;
+  lng: number;
+  lat: number;
+  value: number;
+  color: string;
+}
+
+// Maps are drawn as proportional symbols on an equirectangular projection: boundary
+// geometry is not bundled, so choropleths use each feature's centroid.
+function drawMap(canvas: Canvas, config: ChartConfig, plot: Box): void {
+  const ds = config.data.datasets?.[0] || EMPTY_DATASET;
+  const geo = config.geo;
+  const symbols: MapSymbol[] = geo?.mode === 'points'
+    ? (geo.points || []).map((p, i) => ({ label: p.label, lng: p.lng, lat: p.lat, value: num(p.value), color: colorAt(ds, i) }))
+    : (geo?.features || [])
+      .map((f, i) => f.centroid ? { label: f.label, lng: f.centroid[0], lat: f.centroid[1], value: num(ds.data[i]), color: colorAt(ds, i) } : null)
+      .filter((s): s is MapSymbol => s !== null);
+  if (symbols.length === 0) {
+    canvas.text(plot.x + plot.width / 2, plot.y + plot.height / 2, '—', { anchor: 'middle', color: canvas.palette.muted });
+    return;
+  }
+
+  const pad = 2;
+  const [lngLow, lngHigh] = extent(symbols.map(s => s.lng));
+  const [latLow, latHigh] = extent(symbols.map(s => s.lat));
+  const [minLng, maxLng] = [lngLow - pad, lngHigh + pad];
+  const [minLat, maxLat] = [latLow - pad, latHigh + pad];
+  const scale = Math.min(plot.width / (maxLng - minLng), plot.height / (maxLat - minLat));
+  const ox = plot.x + (plot.width - (maxLng - minLng) * scale) / 2;
+  const oy = plot.y + (plot.height - (maxLat - minLat) * scale) / 2;
+  const maxValue = Math.max(extent(symbols.map(s => Math.abs(s.value)))[1], 1);
+
+  canvas.rect(plot.x, plot.y, plot.width, plot.height, 'none', ` stroke="${escapeXml(canvas.palette.grid)}"`);
+  for (const s of symbols) {
+    const x = ox + (s.lng - minLng) * scale;
+    const y = oy + (maxLat - s.lat) * scale;
+    canvas.circle(x, y, 4 + 16 * Math.sqrt(Math.abs(s.value) / maxValue), s.color, ' fill-opacity="0.85"');
+    canvas.text(x, y - 6, truncate(s.label, 12), { anchor: 'middle', size: 10 });
+  }
+}
+
+function drawTable(canvas: Canvas, config: TableConfig, box: Box): void {
+  const rowHeight = 22;
+  const columns = config.columns;
+  const colWidth = box.width / Math.max(columns.length, 1);
+  const maxRows = Math.max(0, Math.floor(box.height / rowHeight) - (config.totals ? 2 : 1));
+  const cell = (value: unknown, i: number, y: number, weight: 'normal' | 'bold' = 'normal') => {
+    const align = columns[i].align;
+    const x = align === 'right' ? box.x + colWidth * (i + 1) - 6 : align === 'center' ? box.x + colWidth * (i + 0.5) : box.x + colWidth * i + 6;
+    canvas.text(x, y, truncate(String(value ?? ''), Math.floor(colWidth / 7)), { anchor: align === 'right' ? 'end' : align === 'center' ? 'middle' : 'start', weight });
+  };
+
+  canvas.rect(box.x, box.y, box.width, rowHeight, canvas.palette.grid);
+  columns.forEach((c, i) => cell(c.label, i, box.y + 15, 'bold'));
+  config.rows.slice(0, maxRows).forEach((row, n) => {
+    const y = box.y + rowHeight * (n + 1);
+    canvas.line(box.x, y + rowHeight, box.x + box.width, y + rowHeight, canvas.palette.grid);
+    columns.forEach((c, i) => cell(row[c.key], i, y + 15));
+  });
+  if (config.totals) {
+    const y = box.y + rowHeight * (Math.min(maxRows, config.rows.length) + 1);
+    columns.forEach((c, i) => cell(config.totals![c.key], i, y + 15, 'bold'));
+  }
+}
+
+function drawLegend(canvas: Canvas, items: Array<{ label: string; color: string }>, plot: Box): void {
+  let x = plot.x;
+  const y = plot.y + plot.height + 40;
+  for (const item of items) {
+    canvas.rect(x, y - 9, 10, 10, item.color || FALLBACK_COLOR);
+    const label = truncate(item.label, 20);
+    canvas.text(x + 14, y, label);
+    x += 24 + label.length * 6.5;
+  }
+}
+
+function isTableConfig(config: ChartConfig | TableConfig): config is TableConfig {
+  return config.type === 'table' && 'columns' in config;
+}
+
+function isPointData(config: ChartConfig): boolean {
+  const first = config.data?.datasets?.[0]?.data?.[0];
+  return first !== null && typeof first === 'object';
+}
+
+function colorAt(dataset: Dataset, index: number): string {
+  const bg = dataset.backgroundColor;
+  if (Array.isArray(bg)) return bg[index % bg.length] || FALLBACK_COLOR;
+  if (typeof bg === 'string' && bg !== 'transparent') return bg;
+  return typeof dataset.borderColor === 'string' ? dataset.borderColor : FALLBACK_COLOR;
+}
+
+// Line colour of a dataset, falling back to its fill
+function strokeAt(dataset: Dataset): string {
+  return typeof dataset.borderColor === 'string' && dataset.borderColor ? dataset.borderColor : colorAt(dataset, 0);
+}
+
+function patternAt(dataset: Dataset, index: number): PatternShape | undefined {
+  return Array.isArray(dataset.pattern) ? dataset.pattern[index % dataset.pattern.length] : dataset.pattern;
+}
+
+// Colour of a bar or slice, patterned when the dataset carries `pattern`
+function fillAt(canvas: Canvas, dataset: Dataset, index: number): string {
+  return canvas.fill(colorAt(dataset, index), patternAt(dataset, index));
+}
+
+// Evenly spaced round ticks covering [min, max]
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [0, 1];
+  if (min === max) {
+    min = min > 0 ? 0 : min - 1;
+    max = max > 0 ? max : max + 1;
+  }
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const step = (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+  const ticks: number[] = [];
+  for (let v = Math.floor(min / step) * step; v <= Math.ceil(max / step) * step + step / 2; v += step) {
+    ticks.push(Number(v.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${Number((value / 1e9).toFixed(1))}B`;
+  if (abs >= 1e6) return `${Number((value / 1e6).toFixed(1))}M`;
+  if (abs >= 1e3) return `${Number((value / 1e3).toFixed(1))}k`;
+  return String(Number(value.toFixed(2)));
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, Math.max(max - 1, 1))}…` : value;
+}
+
+function num(value: unknown): number {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function r(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+}
@@ -0,0 +1,72 @@
+import { ColumnRole, ColumnSchema, ColumnSchemaEntry, ColumnType, DataStructure } from './types';
+
+const MEASURE_ROLES: ColumnRole[] = ['measure', 'currency', 'percent'];
+
+function normalizeSchemaEntry(entry: ColumnRole | ColumnSchemaEntry | undefined): ColumnSchemaEntry | null {
+  if (!entry) return null;
+  return typeof entry === 'string' ? { role: entry } : entry;
+}
+
+// Map common SQL types onto a role
+export function roleFromSqlType(sqlType: string): ColumnRole | undefined {
+  const type = sqlType.trim().toUpperCase();
+  if (/^(DATE|TIME|TIMESTAMP|DATETIME)/.test(type)) return 'time';
+  if (/^(MONEY|SMALLMONEY)/.test(type)) return 'currency';
+  if (/^(INT|INTEGER|BIGINT|SMALLINT|TINYINT|DECIMAL|NUMERIC|FLOAT|DOUBLE|REAL)/.test(type)) return 'measure';
+  if (/^(UUID|UNIQUEIDENTIFIER)/.test(type)) return 'identifier';
+  if (/^(CHAR|VARCHAR|NVARCHAR|TEXT|STRING|ENUM)/.test(type)) return 'dimension';
+  return undefined;
+}
+
+// Value type implied by a role; dimensions stored as numbers (zip codes, years) become labels
+function typeForRole(role: ColumnRole, detected: ColumnType): ColumnType {
+  if (MEASURE_ROLES.includes(role)) return 'number';
+  if (role === 'time') return 'date';
+  if ((role === 'dimension' || role === 'geo') && detected === 'number') return 'string';
+  return detected;
+}
+
+// Apply a caller schema over the detected column types. Only declared columns get a role;
+// the others keep the name/type heuristics.
+export function applySchema(
+  detectedTypes: Record<string, ColumnType>,
+  schema: ColumnSchema = {}
+): { columnTypes: Record<string, ColumnType>; columnRoles: Record<string, ColumnRole> } {
+  const columnTypes: Record<string, ColumnType> = { ...detectedTypes };
+  const columnRoles: Record<string, ColumnRole> = {};
+  for (const column of Object.keys(detectedTypes)) {
+    const entry = normalizeSchemaEntry(schema[column]);
+    if (!entry) continue;
+    const role = entry.role || (entry.sqlType ? roleFromSqlType(entry.sqlType) : undefined);
+    const type = entry.type || detectedTypes[column];
+    columnTypes[column] = role ? typeForRole(role, type) : type;
+    if (role) columnRoles[column] = role;
+  }
+  return { columnTypes, columnRoles };
+}
+
+export function roleOf(dataStructure: DataStructure, column: string): ColumnRole | undefined {
+  return dataStructure.columnRoles?.[column];
+}
+
+export function isIdentifierColumn(column: string, dataStructure?: DataStructure): boolean {
+  const role = dataStructure && roleOf(dataStructure, column);
+  if (role) return role === 'identifier';
+  const lower = column.toLowerCase();
+  return lower === 'id' || lower.endsWith('_id') || /[a-z]Id$/.test(column);
+}
+
+// Numeric column worth aggregating (not an id, not a declared dimension)
+export function isMeasureColumn(column: string, dataStructure: DataStructure): boolean {
+  const role = roleOf(dataStructure, column);
+  if (role) return MEASURE_ROLES.includes(role);
+  return dataStructure.columnTypes[column] === 'number';
+}
+
+// Declared time role wins; otherwise date type or a month/date/time column name
+export function isTimeColumn(column: string, dataStructure: DataStructure): boolean {
+  const role = roleOf(dataStructure, column);
+  if (role) return role === 'time';
+  const lower = column.toLowerCase();
+  return dataStructure.columnTypes[column] === 'date' || lower.includes('month') || lower.includes('date') || lower.includes('time');
+}
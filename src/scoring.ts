@@ -0,0 +1,56 @@
+import { ChartContext, ChartPlugin, ConfidenceBreakdown, ConfidenceFactor, ScoreFeature, ScoringOptions, SupportedLocale } from './types';
+import { resolveText } from './chart-registry';
+import { t } from './i18n';
+
+export const DEFAULT_BASE_CONFIDENCE = 0.5;
+// Contributions add up with diminishing returns: a raw gain of SATURATION closes ~63% of the
+// gap between the base and 1, so strong candidates approach 1 without tying at a cap
+const SATURATION = 0.35;
+
+// Confidence of one plugin for a request, with the factors behind it
+export function scoreChart(plugin: ChartPlugin, context: ChartContext, options: ScoringOptions = {}): ConfidenceBreakdown {
+  const base = options.base ?? DEFAULT_BASE_CONFIDENCE;
+  if (!plugin.features) {
+    // Opaque score of plugins that don't describe their evidence
+    const score = plugin.score ? plugin.score(context) : base;
+    return { base: score, factors: [], raw: score, confidence: score };
+  }
+  const weights = { ...plugin.weights, ...options.weights?.[plugin.type] };
+  return weighFeatures(plugin.features(context), weights, base, context.locale);
+}
+
+export function weighFeatures(
+  features: ScoreFeature[],
+  weights: Record<string, number>,
+  base = DEFAULT_BASE_CONFIDENCE,
+  locale?: SupportedLocale
+): ConfidenceBreakdown {
+  const factors: ConfidenceFactor[] = features
+    .map(feature => {
+      const strength = clamp(feature.strength);
+      const weight = weights[feature.id] ?? 0;
+      return { id: feature.id, strength, weight, contribution: round(weight * strength), reason: resolveText(feature.reason, locale) };
+    })
+    .sort((a, b) => b.contribution - a.contribution);
+  const gain = factors.reduce((acc, factor) => acc + factor.contribution, 0);
+  return {
+    base,
+    factors,
+    raw: round(base + gain),
+    confidence: round(clamp(1 - (1 - base) * Math.exp(-gain / SATURATION))),
+  };
+}
+
+// The plugin's lead sentence followed by the evidence that raised the confidence
+export function explainConfidence(lead: string, breakdown: ConfidenceBreakdown, locale: SupportedLocale): string {
+  const reasons = breakdown.factors.filter(factor => factor.contribution > 0).map(factor => factor.reason);
+  return reasons.length ? t(locale, 'reasoning.because', { reasoning: lead, reasons: reasons.join('; ') }) : lead;
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(Number.isFinite(value) ? value : 0, 0), 1);
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
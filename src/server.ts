@@ -1,36 +1,170 @@
 import express from 'express';
 import cors from 'cors';
 import { AutoChartingEngine } from './auto-charting';
+import { composeDashboard } from './dashboard';
+import { exportChartConfig } from './exporters';
+import { PngUnavailableError, renderChart, renderQuestion } from './render';
+import { ErrorCode, RequestValidationError, validateExportFormat, validateFeedbackRequest, validateRenderRequest, validateSuggestRequest } from './validation';
+import { buildOpenApiDocument } from './openapi';
+import { PayloadParseError, parsePayload, payloadFormatFor, TEXT_PAYLOAD_TYPES } from './ingest';
+import { FileFeedbackStore } from './feedback';
 
 const app = express();
 const port = 8003;
 
 app.use(cors());
-app.use(express.json());
+// Query results can be large; JSON_BODY_LIMIT overrides the cap (e.g. "200mb")
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '50mb' }));
+// CSV and NDJSON exports are posted as-is; see suggestBody()
+app.use(express.text({ type: TEXT_PAYLOAD_TYPES, limit: process.env.JSON_BODY_LIMIT || '50mb' }));
 
-const chartingEngine = new AutoChartingEngine();
+// Picks and dismissals survive restarts; FEEDBACK_FILE moves the file
+const chartingEngine = new AutoChartingEngine({ feedback: new FileFeedbackStore(process.env.FEEDBACK_FILE || 'data/feedback.ndjson') });
+
+// Explicit `locale` (body or query string) wins over the Accept-Language header
+function requestLocale(req: express.Request): string | undefined {
+  const explicit = req.body?.locale ?? req.query.locale;
+  if (typeof explicit === 'string' && explicit) return explicit;
+  const [preferred] = req.acceptsLanguages();
+  return preferred && preferred !== '*' ? preferred : undefined;
+}
+
+// CSV/NDJSON bodies carry only the rows; question and options then come from the query string
+// (?question=&aggregation=&topN=&forecast=&accessible=&theme=&units=receita:USD,pedidos:count&page=&pageSize=,
+// plus ?delimiter= and ?header= for CSV)
+function suggestBody(req: express.Request): unknown {
+  const format = payloadFormatFor(req.get('content-type'));
+  if (format !== 'csv' && format !== 'ndjson') return req.body;
+  const { question, aggregation, topN, forecast, accessible, theme, units, page, pageSize, delimiter, header } = req.query;
+  const data = parsePayload(typeof req.body === 'string' ? req.body : '', format, {
+    delimiter: typeof delimiter === 'string' && delimiter ? delimiter.replace('\\t', '\t') : undefined,
+    header: header === undefined ? undefined : header === 'true',
+  });
+  return {
+    data,
+    question,
+    aggregation,
+    topN: topN === undefined ? undefined : Number(topN),
+    forecast: forecast === undefined ? undefined : forecast === 'true',
+    accessible: accessible === undefined ? undefined : accessible === 'true',
+    theme,
+    units: typeof units === 'string' ? Object.fromEntries(units.split(',').map(pair => pair.split(':').map(part => part.trim()))) : units,
+    page: page === undefined ? undefined : Number(page),
+    pageSize: pageSize === undefined ? undefined : Number(pageSize),
+  };
+}
+
+// Structured error body: `error` keeps the human-readable message, `code` is for machines
+function sendError(res: express.Response, status: number, code: ErrorCode, message: string, field?: string) {
+  res.status(status).json({ success: false, code, error: message, ...(field ? { field } : {}) });
+}
+
+// Validation failures become 4xx with their code; anything else is logged and reported as a 500
+function handleError(res: express.Response, error: unknown, context: string, message: string) {
+  if (error instanceof RequestValidationError) {
+    return sendError(res, error.status, error.code, error.message, error.field);
+  }
+  if (error instanceof PayloadParseError) {
+    return sendError(res, 400, error.format === 'csv' ? 'invalid_csv' : 'invalid_ndjson', error.message, 'data');
+  }
+  if (error instanceof PngUnavailableError) {
+    return sendError(res, 501, 'png_unavailable', error.message);
+  }
+  console.error(`Error ${context}:`, error);
+  sendError(res, 500, 'internal_error', message);
+}
 
 app.post('/suggest', (req, res) => {
   try {
-    const { data, question } = req.body;
+    const { data, question, schema, aggregation, topN, forecast, accessible, theme, units, page, pageSize } = validateSuggestRequest(suggestBody(req));
+    // ?format=vega-lite|echarts returns each config as that library's spec (default: Chart.js)
+    const format = validateExportFormat(req.query.format);
     
-    if (!data || !Array.isArray(data)) {
-      return res.status(400).json({ error: 'Invalid data format' });
-    }
-    
-    const suggestions = chartingEngine.suggestCharts(data, question);
+    const suggestions = chartingEngine.suggestCharts(data, question, { locale: requestLocale(req), schema, aggregation, topN, forecast, accessible, theme, units, page, pageSize });
     
     res.json({
       success: true,
-      suggestions: suggestions
+      format,
+      suggestions: format === 'chartjs' ? suggestions : suggestions.map(s => {
+        const { spec, warnings } = exportChartConfig(s.config, format);
+        return { ...s, config: spec, warnings };
+      })
     });
   } catch (error) {
-    console.error('Error generating suggestions:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: 'Failed to generate suggestions' 
+    handleError(res, error, 'generating suggestions', 'Failed to generate suggestions');
+  }
+});
+
+app.post('/dashboard', (req, res) => {
+  try {
+    const { data, question, schema, aggregation, topN, forecast, accessible, theme, units, page, pageSize } = validateSuggestRequest(suggestBody(req));
+    
+    const dashboard = composeDashboard(chartingEngine, data, question, { locale: requestLocale(req), schema, aggregation, topN, forecast, accessible, theme, units, page, pageSize });
+    
+    res.json({
+      success: true,
+      dashboard
     });
+  } catch (error) {
+    handleError(res, error, 'composing dashboard', 'Failed to compose dashboard');
+  }
+});
+
+// Static image of a chart config, or of the top suggestion for data + question
+app.post('/render', (req, res) => {
+  try {
+    const { config, data, question, chartType, width, height, theme, format, accessible } = validateRenderRequest(req.body);
+    if (chartType !== undefined && !chartingEngine.getRegistry().get(chartType)) {
+      return sendError(res, 400, 'unknown_chart_type', `Unknown chart type: ${chartType}`, 'chartType');
+    }
+
+    const renderOptions = { width, height, theme, format };
+    const image = config
+      ? renderChart(config, renderOptions)
+      : renderQuestion(chartingEngine, data!, question, { ...renderOptions, chartType, locale: requestLocale(req), accessible });
+
+    res.type(image.contentType).send(image.body);
+  } catch (error) {
+    handleError(res, error, 'rendering chart', 'Failed to render chart');
+  }
+});
+
+// A suggestion the user picked or dismissed; later rankings for similar data learn from it
+app.post('/feedback', (req, res) => {
+  try {
+    const feedback = validateFeedbackRequest(req.body);
+    if (!chartingEngine.getRegistry().get(feedback.chartType)) {
+      return sendError(res, 400, 'unknown_chart_type', `Unknown chart type: ${feedback.chartType}`, 'chartType');
+    }
+    const record = chartingEngine.recordFeedback({ ...feedback, locale: requestLocale(req) });
+    res.status(201).json({ success: true, record });
+  } catch (error) {
+    handleError(res, error, 'recording feedback', 'Failed to record feedback');
+  }
+});
+
+// Export of the recorded feedback and the learned preferences
+app.get('/feedback', (req, res) => {
+  res.json({ success: true, ...chartingEngine.exportFeedback() });
+});
+
+app.delete('/feedback', (req, res) => {
+  res.json({ success: true, removed: chartingEngine.resetFeedback() });
+});
+
+app.get('/openapi.json', (req, res) => {
+  res.json(buildOpenApiDocument());
+});
+
+// Malformed or oversized JSON bodies are rejected by express.json() before reaching the routes
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error?.type === 'entity.parse.failed') {
+    return sendError(res, 400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  if (error?.type === 'entity.too.large') {
+    return sendError(res, 413, 'payload_too_large', `Request body exceeds ${error.limit} bytes`);
   }
+  next(error);
 });
 
 app.get('/health', (req, res) => {
@@ -0,0 +1,138 @@
+import { SupportedLocale } from './types';
+import { t } from './i18n';
+
+// Small numeric helpers shared by generators and enrichments
+
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Min and max without spreading into Math.min/max (which overflows the stack on large arrays)
+export function extent(values: number[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return [min, max];
+}
+
+export function linearRegression(xs: number[], ys: number[]): { slope: number; intercept: number; r2: number } {
+  const n = Math.min(xs.length, ys.length);
+  const mx = mean(xs.slice(0, n));
+  const my = mean(ys.slice(0, n));
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = my - slope * mx;
+  const r2 = sxx === 0 || syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+  return { slope, intercept, r2 };
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  const mx = mean(xs.slice(0, n));
+  const my = mean(ys.slice(0, n));
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// Pearson over ranks (ties get their average rank)
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(rank(xs), rank(ys));
+}
+
+export function rank(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const avgRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = avgRank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+// Linear-interpolated quantile (q in [0, 1])
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export interface Outlier {
+  index: number;
+  value: number;
+  // Value the method considered normal at that point (median, mean or trend)
+  expected: number;
+  // Distance from expected in units of the method's spread
+  score: number;
+}
+
+// Points outside the Tukey fences [Q1 - k·IQR, Q3 + k·IQR]; nulls are skipped
+export function iqrOutliers(values: Array<number | null>, k = 1.5): Outlier[] {
+  const present = presentValues(values);
+  if (present.length < 4) return [];
+  const numbers = present.map(p => p.value);
+  const q1 = quantile(numbers, 0.25);
+  const q3 = quantile(numbers, 0.75);
+  const iqr = q3 - q1;
+  const expected = median(numbers);
+  return present
+    .filter(p => p.value < q1 - k * iqr || p.value > q3 + k * iqr)
+    .map(p => ({ ...p, expected, score: Math.abs(p.value - expected) / (iqr || 1) }));
+}
+
+// Time series: residuals from the linear trend, scored against their median absolute
+// deviation so a single spike does not hide itself by inflating the spread
+export function trendOutliers(values: Array<number | null>, threshold = 3.5): Outlier[] {
+  const present = presentValues(values);
+  if (present.length < 5) return [];
+  const { slope, intercept } = linearRegression(present.map(p => p.index), present.map(p => p.value));
+  const residuals = present.map(p => p.value - (intercept + slope * p.index));
+  const center = median(residuals);
+  const mad = median(residuals.map(r => Math.abs(r - center))) * 1.4826;
+  const spread = mad || mean(residuals.map(r => Math.abs(r - center)));
+  if (spread === 0) return [];
+  return present
+    .map((p, i) => ({ ...p, expected: intercept + slope * p.index, score: Math.abs(residuals[i] - center) / spread }))
+    .filter(p => p.score > threshold);
+}
+
+function presentValues(values: Array<number | null>): Array<{ index: number; value: number }> {
+  return values
+    .map((value, index) => ({ index, value: value === null || value === undefined ? NaN : Number(value) }))
+    .filter(p => Number.isFinite(p.value));
+}
+
+export function describeCorrelation(r: number, locale: SupportedLocale): string {
+  const abs = Math.abs(r);
+  const strength = abs >= 0.7 ? 'correlation.strong' : abs >= 0.4 ? 'correlation.moderate' : abs >= 0.2 ? 'correlation.weak' : 'correlation.veryWeak';
+  return `${t(locale, strength)}, ${t(locale, r >= 0 ? 'correlation.positive' : 'correlation.negative')}`;
+}
@@ -0,0 +1,154 @@
+import { Theme, ThemeSelection } from './types';
+
+// Colours, fonts and light/dark variants applied by every generator, enrichment and renderer
+
+export const LIGHT_THEME: Theme = {
+  name: 'light',
+  mode: 'light',
+  palette: {
+    categorical: ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#84cc16', '#f97316', '#ec4899', '#6366f1'],
+    sequential: ['#dbeafe', '#1e40af'],
+    diverging: ['#ef4444', '#e5e7eb', '#10b981'],
+  },
+  colors: {
+    background: '#ffffff',
+    text: '#1f2937',
+    muted: '#6b7280',
+    grid: '#e5e7eb',
+    reference: '#111827',
+    accent: '#ef4444',
+    anomaly: '#b91c1c',
+    forecast: '#64748b',
+  },
+  font: { family: 'Helvetica, Arial, sans-serif', size: 11, titleSize: 16 },
+};
+
+export const DARK_THEME: Theme = {
+  name: 'dark',
+  mode: 'dark',
+  palette: {
+    categorical: ['#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa', '#22d3ee', '#a3e635', '#fb923c', '#f472b6', '#818cf8'],
+    sequential: ['#1e3a8a', '#93c5fd'],
+    diverging: ['#f87171', '#4b5563', '#34d399'],
+  },
+  colors: {
+    background: '#111827',
+    text: '#f3f4f6',
+    muted: '#9ca3af',
+    grid: '#374151',
+    reference: '#f3f4f6',
+    accent: '#f87171',
+    anomaly: '#fca5a5',
+    forecast: '#94a3b8',
+  },
+  font: LIGHT_THEME.font,
+};
+
+// Okabe-Ito: distinguishable under protanopia, deuteranopia and tritanopia
+export const COLORBLIND_THEME: Theme = {
+  ...LIGHT_THEME,
+  name: 'colorblind',
+  palette: {
+    categorical: ['#0072B2', '#E69F00', '#009E73', '#D55E00', '#CC79A7', '#56B4E9', '#F0E442', '#000000'],
+    sequential: ['#deebf7', '#08519c'],
+    diverging: ['#D55E00', '#f7f7f7', '#0072B2'],
+  },
+  colors: { ...LIGHT_THEME.colors, accent: '#D55E00', anomaly: '#000000' },
+};
+
+export const DEFAULT_THEME = LIGHT_THEME;
+
+const themes = new Map<string, Theme>([LIGHT_THEME, DARK_THEME, COLORBLIND_THEME].map(theme => [theme.name, theme]));
+
+// Add (or replace) a named theme, e.g. a white-label customer's brand
+export function registerTheme(theme: Theme): void {
+  // The colour helpers only parse hex, so anything else would end up as NaN in the charts
+  const colors = [...theme.palette.categorical, ...theme.palette.sequential, ...theme.palette.diverging, ...Object.values(theme.colors)];
+  const invalid = colors.find(color => !isHexColor(color));
+  if (invalid !== undefined) throw new Error(`Theme ${theme.name} has a non-hex colour: ${invalid}`);
+  themes.set(theme.name, theme);
+}
+
+export function getTheme(name: string): Theme | undefined {
+  return themes.get(name);
+}
+
+export function listThemes(): string[] {
+  return Array.from(themes.keys());
+}
+
+// A registered name, or overrides merged over the theme they extend
+export function resolveTheme(selection?: ThemeSelection): Theme {
+  if (selection === undefined) return DEFAULT_THEME;
+  if (typeof selection === 'string') {
+    const theme = getTheme(selection);
+    if (!theme) throw new Error(`Unknown theme: ${selection}`);
+    return theme;
+  }
+  const base = resolveTheme(selection.extends ?? DEFAULT_THEME.name);
+  return {
+    name: selection.name ?? `${base.name}-custom`,
+    mode: selection.mode ?? base.mode,
+    palette: { ...base.palette, ...selection.palette },
+    colors: { ...base.colors, ...selection.colors },
+    font: { ...base.font, ...selection.font },
+  };
+}
+
+// `count` colours cycling through the categorical palette
+export function categoricalColors(theme: Theme, count: number): string[] {
+  const palette = theme.palette.categorical;
+  return Array.from({ length: count }, (_, i) => palette[i % palette.length]);
+}
+
+// Colour of each value along the sequential ramp (low -> high)
+export function sequentialColors(theme: Theme, values: number[], min: number, max: number): string[] {
+  const [from, to] = theme.palette.sequential.map(rgbOf);
+  return values.map(v => {
+    const t = max === min ? 1 : (v - min) / (max - min);
+    const [r, g, b] = from.map((c, i) => Math.round(c + (to[i] - c) * t));
+    return `rgb(${r}, ${g}, ${b})`;
+  });
+}
+
+// '#3b82f6' -> 'rgba(59, 130, 246, 0.2)'
+export function withAlpha(hex: string, alpha: number): string {
+  const [r, g, b] = rgbOf(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+// '#rgb' or '#rrggbb', the only notations the colour helpers and renderers accept
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+function rgbOf(hex: string): number[] {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16));
+}
+
+// Chart.js text and grid styling, plus the resolved theme in `meta.theme` so clients and
+// renderers can reproduce background and fonts
+export function applyThemeOptions(config: any, theme: Theme): any {
+  if (!config) return config;
+  const cloned = JSON.parse(JSON.stringify(config));
+  const font = { family: theme.font.family, size: theme.font.size };
+  const options = cloned.options || {};
+  const plugins = options.plugins || {};
+
+  if (plugins.title) {
+    plugins.title = { ...plugins.title, color: theme.colors.text, font: { family: theme.font.family, size: theme.font.titleSize } };
+  }
+  if (plugins.legend) {
+    plugins.legend = { ...plugins.legend, labels: { ...plugins.legend.labels, color: theme.colors.text, font } };
+  }
+  for (const scale of Object.values<any>(options.scales || {})) {
+    scale.ticks = { ...scale.ticks, color: theme.colors.muted, font };
+    scale.grid = { ...scale.grid, color: theme.colors.grid };
+    if (scale.title) scale.title = { ...scale.title, color: theme.colors.text };
+  }
+
+  cloned.meta = { ...cloned.meta, theme };
+  return cloned;
+}
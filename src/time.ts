@@ -0,0 +1,306 @@
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfISOWeek,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from 'date-fns';
+import { TimeGranularity } from './types';
+import { extent } from './statistics';
+
+export interface ParsedTemporal {
+  date: Date;
+  // Finest granularity the raw value expresses ("2024-01" is a month, "2024-Q1" a quarter)
+  granularity: TimeGranularity;
+  // Month names without a year ("Março"): orderable but not placeable on a calendar
+  yearless?: boolean;
+}
+
+export interface TimeAxis {
+  granularity: TimeGranularity;
+  labels: string[];
+  // Bucket index for a raw value (-1 when it cannot be parsed)
+  bucketOf(value: unknown): number;
+  // Periods added because no row fell into them
+  filled: number;
+}
+
+export interface TimeAxisOptions {
+  granularity?: TimeGranularity;
+  // Insert empty periods between the first and last bucket (default true)
+  fillGaps?: boolean;
+  // Coarsen the granularity until the axis fits (default 60)
+  maxBuckets?: number;
+}
+
+const GRANULARITIES: TimeGranularity[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+// Full names and abbreviations in English, Portuguese and Spanish
+const MONTHS: Record<string, number> = {};
+[
+  ['january', 'jan', 'janeiro', 'enero', 'ene'],
+  ['february', 'feb', 'fevereiro', 'fev', 'febrero'],
+  ['march', 'mar', 'março', 'marco', 'marzo'],
+  ['april', 'apr', 'abril', 'abr'],
+  ['may', 'maio', 'mai', 'mayo'],
+  ['june', 'jun', 'junho', 'junio'],
+  ['july', 'jul', 'julho', 'julio'],
+  ['august', 'aug', 'agosto', 'ago'],
+  ['september', 'sep', 'sept', 'setembro', 'set', 'septiembre', 'setiembre'],
+  ['october', 'oct', 'outubro', 'out', 'octubre'],
+  ['november', 'nov', 'novembro', 'noviembre'],
+  ['december', 'dec', 'dezembro', 'dez', 'diciembre', 'dic'],
+].forEach((names, month) => names.forEach(name => { MONTHS[name] = month; }));
+
+const MONTH_LABEL = /^([a-zà-ÿ]+)\.?(?:(?:\s+de\s+|[\s/-]+)(\d{2}|\d{4}))?$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const BR_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const YEAR_MONTH = /^(\d{4})[-/](\d{1,2})$/;
+const ISO_WEEK = /^(\d{4})-?W(\d{2})$/i;
+const QUARTER_PATTERNS = [
+  /^(\d{4})[-\s/]?(?:Q|T)([1-4])$/i,
+  /^(?:Q|T)([1-4])[-\s/]?(\d{4})$/i,
+  /^([1-4])(?:Q|T)[-\s/]?(\d{4})$/i,
+];
+
+export function parseTemporal(value: unknown): ParsedTemporal | null {
+  if (value instanceof Date) {
+    return isValid(value) ? { date: value, granularity: 'day' } : null;
+  }
+  if (typeof value === 'number') return parseNumericTemporal(value);
+  if (typeof value !== 'string') return null;
+
+  const raw = value.trim();
+  if (!raw) return null;
+
+  if (/^\d+$/.test(raw)) return parseNumericTemporal(Number(raw));
+
+  if (ISO_DATE.test(raw)) {
+    const date = parseISO(raw);
+    return isValid(date) ? { date, granularity: 'day' } : null;
+  }
+
+  let m = raw.match(BR_DATE);
+  if (m) return calendarDate(Number(m[3]), Number(m[2]) - 1, Number(m[1]), 'day');
+
+  m = raw.match(YEAR_MONTH);
+  if (m) return calendarDate(Number(m[1]), Number(m[2]) - 1, 1, 'month');
+
+  m = raw.match(ISO_WEEK);
+  if (m) {
+    // ISO week 1 is the week containing January 4th
+    const week1 = startOfISOWeek(new Date(Number(m[1]), 0, 4));
+    return { date: addWeeks(week1, Number(m[2]) - 1), granularity: 'week' };
+  }
+
+  for (const [idx, pattern] of QUARTER_PATTERNS.entries()) {
+    m = raw.match(pattern);
+    if (m) {
+      const [year, quarter] = idx === 0 ? [m[1], m[2]] : [m[2], m[1]];
+      return calendarDate(Number(year), (Number(quarter) - 1) * 3, 1, 'quarter');
+    }
+  }
+
+  m = raw.match(MONTH_LABEL);
+  if (m) {
+    const month = MONTHS[m[1].toLowerCase()];
+    if (month === undefined) return null;
+    if (!m[2]) return { date: new Date(2000, month, 1), granularity: 'month', yearless: true };
+    const year = m[2].length === 2 ? 2000 + Number(m[2]) : Number(m[2]);
+    return calendarDate(year, month, 1, 'month');
+  }
+
+  // Free-form dates with a spelled-out month ("Jan 15, 2024")
+  if (/\d{4}/.test(raw) && /[a-z]{3}/i.test(raw)) {
+    const word = (raw.toLowerCase().match(/[a-zà-ÿ]+/) || [''])[0];
+    const date = new Date(raw);
+    if (MONTHS[word] !== undefined && isValid(date)) return { date, granularity: 'day' };
+  }
+
+  return null;
+}
+
+function parseNumericTemporal(value: number): ParsedTemporal | null {
+  if (!Number.isFinite(value)) return null;
+  // Epoch milliseconds / seconds
+  if (value > 1e11) return { date: new Date(value), granularity: 'day' };
+  if (value > 1e9) return { date: new Date(value * 1000), granularity: 'day' };
+  if (Number.isInteger(value) && value >= 1900 && value <= 2100) return calendarDate(value, 0, 1, 'year');
+  return null;
+}
+
+function calendarDate(year: number, month: number, day: number, granularity: TimeGranularity): ParsedTemporal | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const date = new Date(year, month, day);
+  return date.getMonth() === month ? { date, granularity } : null;
+}
+
+export function truncateToGranularity(date: Date, granularity: TimeGranularity): Date {
+  switch (granularity) {
+    case 'day': return startOfDay(date);
+    case 'week': return startOfISOWeek(date);
+    case 'month': return startOfMonth(date);
+    case 'quarter': return startOfQuarter(date);
+    case 'year': return startOfYear(date);
+  }
+}
+
+export function addPeriods(date: Date, granularity: TimeGranularity, amount: number): Date {
+  switch (granularity) {
+    case 'day': return addDays(date, amount);
+    case 'week': return addWeeks(date, amount);
+    case 'month': return addMonths(date, amount);
+    case 'quarter': return addQuarters(date, amount);
+    case 'year': return addYears(date, amount);
+  }
+}
+
+export function formatPeriod(date: Date, granularity: TimeGranularity): string {
+  switch (granularity) {
+    case 'day': return format(date, 'yyyy-MM-dd');
+    case 'week': return format(date, "RRRR-'W'II");
+    case 'month': return format(date, 'yyyy-MM');
+    case 'quarter': return format(date, "yyyy-'Q'Q");
+    case 'year': return format(date, 'yyyy');
+  }
+}
+
+function countPeriods(from: Date, to: Date, granularity: TimeGranularity): number {
+  const days = (to.getTime() - from.getTime()) / 86400000;
+  const perPeriod = { day: 1, week: 7, month: 30.44, quarter: 91.31, year: 365.25 }[granularity];
+  return Math.floor(days / perPeriod) + 1;
+}
+
+// Coarsest granularity the values themselves carry; first-of-month dates count as months
+function nativeGranularity(parsed: ParsedTemporal[]): TimeGranularity {
+  let finest = GRANULARITIES.length - 1;
+  for (const p of parsed) finest = Math.min(finest, GRANULARITIES.indexOf(p.granularity));
+  if (GRANULARITIES[finest] === 'day' && parsed.every(p => p.date.getDate() === 1 && p.date.getHours() === 0)) {
+    return 'month';
+  }
+  return GRANULARITIES[finest];
+}
+
+export function chooseGranularity(parsed: ParsedTemporal[], maxBuckets = 60): TimeGranularity {
+  if (parsed.length === 0) return 'month';
+  const [min, max] = extent(parsed.map(p => p.date.getTime()));
+  const from = new Date(min);
+  const to = new Date(max);
+  let idx = GRANULARITIES.indexOf(nativeGranularity(parsed));
+  while (idx < GRANULARITIES.length - 1 && countPeriods(from, to, GRANULARITIES[idx]) > maxBuckets) idx++;
+  return GRANULARITIES[idx];
+}
+
+// Build a chronological axis for raw time values, or null when they are not temporal enough
+export function buildTimeAxis(values: unknown[], options: TimeAxisOptions = {}): TimeAxis | null {
+  const parsedByKey = new Map<string, ParsedTemporal | null>();
+  const keyOf = (value: unknown) => (value instanceof Date ? `d:${value.getTime()}` : `${typeof value}:${String(value)}`);
+  const parse = (value: unknown) => {
+    const key = keyOf(value);
+    if (!parsedByKey.has(key)) parsedByKey.set(key, parseTemporal(value));
+    return parsedByKey.get(key) || null;
+  };
+
+  // Parse each distinct value once; big results repeat the same dates many times
+  let present = 0;
+  let parsedRows = 0;
+  const distinct = new Map<string, unknown>();
+  for (const value of values) {
+    if (value === null || value === undefined || value === '') continue;
+    present++;
+    const key = keyOf(value);
+    if (!parsedByKey.has(key)) parsedByKey.set(key, parseTemporal(value));
+    if (parsedByKey.get(key)) parsedRows++;
+    distinct.set(key, value);
+  }
+  if (present === 0 || parsedRows < present * 0.8) return null;
+  const distinctValues = Array.from(distinct.values());
+  const parsed = distinctValues.map(parse).filter((p): p is ParsedTemporal => p !== null);
+
+  // Bare month names: keep the original labels, ordered by month
+  if (parsed.every(p => p.yearless)) {
+    const labels = Array.from(new Set(distinctValues.map(v => String(v))))
+      .filter(label => parse(label) !== null)
+      .sort((a, b) => parse(a)!.date.getTime() - parse(b)!.date.getTime());
+    const index = new Map(labels.map((l, i) => [l, i]));
+    return { granularity: 'month', labels, bucketOf: value => index.get(String(value)) ?? -1, filled: 0 };
+  }
+  if (parsed.some(p => p.yearless)) return null;
+
+  const granularity = options.granularity || chooseGranularity(parsed, options.maxBuckets);
+  const bucketStarts = Array.from(new Set(parsed.map(p => truncateToGranularity(p.date, granularity).getTime()))).sort((a, b) => a - b);
+
+  let starts = bucketStarts;
+  if (options.fillGaps !== false) {
+    starts = [];
+    const last = bucketStarts[bucketStarts.length - 1];
+    for (let d = new Date(bucketStarts[0]); d.getTime() <= last; d = addPeriods(d, granularity, 1)) {
+      starts.push(d.getTime());
+    }
+  }
+
+  const index = new Map(starts.map((t, i) => [t, i]));
+  const bucketByKey = new Map<string, number>();
+  return {
+    granularity,
+    labels: starts.map(t => formatPeriod(new Date(t), granularity)),
+    bucketOf: value => {
+      const key = keyOf(value);
+      let bucket = bucketByKey.get(key);
+      if (bucket === undefined) {
+        const p = parse(value);
+        bucket = p && !p.yearless ? index.get(truncateToGranularity(p.date, granularity).getTime()) ?? -1 : -1;
+        bucketByKey.set(key, bucket);
+      }
+      return bucket;
+    },
+    filled: starts.length - bucketStarts.length,
+  };
+}
+
+// Labels of the `count` periods after `label`, or null when it is not a calendar period
+export function nextPeriods(label: string, granularity: TimeGranularity, count: number): string[] | null {
+  const parsed = parseTemporal(label);
+  if (!parsed || parsed.yearless) return null;
+  const start = truncateToGranularity(parsed.date, granularity);
+  return Array.from({ length: count }, (_, i) => formatPeriod(addPeriods(start, granularity, i + 1), granularity));
+}
+
+// Reorder labels (and their values) chronologically when most of them are dates or periods
+export function sortChronologically<T>(labels: string[], values: T[]): { labels: string[]; values: T[] } {
+  const parsed = labels.map(l => parseTemporal(l));
+  if (parsed.filter(p => p !== null).length < labels.length * 0.8) {
+    return { labels, values };
+  }
+  const indices = labels.map((_, i) => i);
+  indices.sort((a, b) => {
+    const ta = parsed[a]?.date.getTime() ?? Infinity;
+    const tb = parsed[b]?.date.getTime() ?? Infinity;
+    return ta === tb ? a - b : ta - tb;
+  });
+  return { labels: indices.map(i => labels[i]), values: indices.map(i => values[i]) };
+}
+
+// Granularity explicitly requested in the question ("por semana", "mensal", "by quarter")
+export function granularityFromQuestion(question: string): TimeGranularity | undefined {
+  const q = question.toLowerCase();
+  const rules: Array<[TimeGranularity, RegExp]> = [
+    ['day', /\b(por dia|diári[oa]s?|diari[oa]s?|daily|by day|per day|por día)\b/],
+    ['week', /\b(por semana|semanal|semanais|weekly|by week|per week)\b/],
+    ['month', /\b(por m[eê]s|mensal|mensais|monthly|by month|per month)\b/],
+    ['quarter', /\b(por trimestre|trimestral|trimestrais|quarterly|by quarter|per quarter)\b/],
+    ['year', /\b(por ano|anual|anuais|yearly|annual|by year|per year|por año)\b/],
+  ];
+  for (const [granularity, pattern] of rules) {
+    if (pattern.test(q)) return granularity;
+  }
+  return undefined;
+}
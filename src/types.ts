@@ -8,27 +8,297 @@ export type ChartType =
   | 'table'
   | 'map';
 
+// Built-in chart types plus any type contributed by a registered ChartPlugin
+export type ChartTypeId = ChartType | (string & {});
+
 export interface DataPoint {
   [key: string]: any;
 }
 
+export type SupportedLocale = 'pt-BR' | 'en' | 'es';
+
+export type ColumnType = 'string' | 'number' | 'date' | 'boolean';
+
+// Semantic role of a column, as known by the query layer or inferred from the data
+export type ColumnRole = 'measure' | 'dimension' | 'time' | 'geo' | 'identifier' | 'currency' | 'percent';
+
+export interface ColumnSchemaEntry {
+  role?: ColumnRole;
+  // Overrides the detected value type
+  type?: ColumnType;
+  // Source SQL type (e.g. 'DECIMAL(10,2)', 'TIMESTAMP'); used to derive the role when none is given
+  sqlType?: string;
+}
+
+// Caller-supplied schema: a role per column, or a fuller entry
+export type ColumnSchema = Record<string, ColumnRole | ColumnSchemaEntry>;
+
 export interface DataStructure {
   hasTimeSeries: boolean;
   hasCategories: boolean;
   hasNumericalComparison: boolean;
   hasGeographicData: boolean;
-  columnTypes: Record<string, 'string' | 'number' | 'date' | 'boolean'>;
+  columnTypes: Record<string, ColumnType>;
+  // Roles declared in the caller's schema; columns it leaves out have no role
+  columnRoles?: Record<string, ColumnRole>;
+  // Distinct values per column from the profiling pass, capped at DataLimits.maxDistinct + 1
+  distinctCounts?: Record<string, number>;
   rowCount: number;
   columnCount: number;
 }
 
+// Size limits for big query results (see AutoChartingEngineOptions.limits)
+export interface DataLimits {
+  // Distinct values tracked per column while profiling
+  maxDistinct: number;
+  // Line/area/bar points kept after LTTB downsampling
+  maxSeriesPoints: number;
+  // Scatter points kept after sampling
+  maxScatterPoints: number;
+}
+
+export type TimeGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// How rows sharing a dimension value are combined
+export type AggregationFunction = 'sum' | 'avg' | 'count' | 'count_distinct' | 'min' | 'max' | 'median';
+
+// Generator overrides; unset fields fall back to the heuristics
+export interface ChartGenerationOptions {
+  dimension?: string;
+  measure?: string;
+  // Defaults to sum
+  aggregation?: AggregationFunction;
+  // Keep the N largest categories and fold the rest into "Outros"
+  topN?: number;
+  // Plot several measures side by side (bar/line); defaults to every numeric column
+  measures?: string[];
+  // Time bucketing for time-like dimensions
+  granularity?: TimeGranularity;
+  // Value used for periods with no rows
+  gapFill?: 'zero' | 'null';
+  // Language of titles and labels (default pt-BR)
+  locale?: SupportedLocale;
+  // Colours of datasets and marks (default: the light theme)
+  theme?: Theme;
+  // Page (1-based) and rows per page of table configs
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SuggestOptions {
+  // Any BCP 47 tag; unsupported ones fall back (en-US -> en, fr -> pt-BR)
+  locale?: string;
+  // Column roles/types known upstream; they take precedence over detection
+  schema?: ColumnSchema;
+  // Overrides the aggregation inferred from the question
+  aggregation?: AggregationFunction;
+  // Overrides the N parsed from "top 10" questions
+  topN?: number;
+  // Project line/area time series forward; implied by "projeção"/"forecast" questions
+  forecast?: boolean | ForecastOptions;
+  // Colour-blind-safe palette plus patterns and dash styles, so series don't rely on colour
+  accessible?: boolean;
+  // Registered theme name ('light', 'dark', 'colorblind', ...) or overrides of one
+  theme?: ThemeSelection;
+  // Unit per measure column; detected from the schema role and the column name otherwise
+  units?: Record<string, ValueUnit>;
+  // Page of table suggestions, which return one page of rows at a time
+  page?: number;
+  pageSize?: number;
+}
+
+export type ThemeMode = 'light' | 'dark';
+
+export interface Theme {
+  name: string;
+  mode: ThemeMode;
+  palette: {
+    // Series and categories, in order; the first one colours single-series charts
+    categorical: string[];
+    // Low and high ends of the magnitude ramp (choropleths)
+    sequential: [string, string];
+    // Negative, neutral and positive ends for signed values (growth %)
+    diverging: [string, string, string];
+  };
+  colors: {
+    background: string;
+    text: string;
+    muted: string;
+    grid: string;
+    // Trend lines and other reference marks
+    reference: string;
+    // Derived series drawn over the data (growth %)
+    accent: string;
+    anomaly: string;
+    forecast: string;
+  };
+  font: {
+    family: string;
+    size: number;
+    titleSize: number;
+  };
+}
+
+// Partial theme on top of a registered one (`extends`, default 'light'), e.g. brand colours
+export interface ThemeOverrides {
+  extends?: string;
+  name?: string;
+  mode?: ThemeMode;
+  palette?: Partial<Theme['palette']>;
+  colors?: Partial<Theme['colors']>;
+  font?: Partial<Theme['font']>;
+}
+
+export type ThemeSelection = string | ThemeOverrides;
+
+export type PatternShape = 'diagonal' | 'dots' | 'cross' | 'horizontal' | 'vertical' | 'zigzag';
+
+// Text alternatives attached to every suggestion (`meta.accessibility`)
+export interface ChartDescription {
+  altText: string;
+  longDescription: string;
+}
+
+export type ForecastModel = 'linear' | 'holt-winters';
+
+export interface ForecastOptions {
+  // Future periods to project (default 3)
+  horizon?: number;
+  // 'auto' picks Holt-Winters when there are two full seasonal cycles
+  model?: ForecastModel | 'auto';
+  // Coverage of the confidence band, e.g. 0.8 or 0.95 (default 0.8)
+  confidence?: number;
+}
+
+// Columns a config actually encodes (recorded in `meta.encoding`)
+export interface ChartEncoding {
+  dimension: string;
+  measure: string;
+  // All plotted measures, for multi-measure charts
+  measures?: string[];
+  series?: string;
+  // Column driving bubble size (scatter plots)
+  size?: string;
+}
+
+export interface ScatterPoint {
+  x: number;
+  y: number;
+  r?: number;
+}
+
 export interface ChartSuggestion {
-  type: ChartType;
+  type: ChartTypeId;
   title: string;
   description: string;
   confidence: number;
+  // Why the confidence is what it is, factor by factor
+  confidenceBreakdown?: ConfidenceBreakdown;
   config: any;
   reasoning: string;
+  // Sent back with POST /feedback when the user picks or dismisses this suggestion
+  feedbackKey?: FeedbackKey;
+}
+
+export type FeedbackAction = 'chosen' | 'rejected';
+
+// "The same kind of request": the shape of the data plus what the question asks for
+export interface FeedbackKey {
+  // Hash of the column types, roles and cardinalities (not the column names)
+  fingerprint: string;
+  // Active question intents joined with '+', or 'none'
+  intent: string;
+}
+
+export interface FeedbackRecord extends FeedbackKey {
+  chartType: ChartTypeId;
+  action: FeedbackAction;
+  // 1-based position of the suggestion when the user acted on it
+  rank?: number;
+  // ISO 8601 timestamp
+  at: string;
+}
+
+// A pick or dismissal, keyed by the suggestion's feedbackKey or by the rows and question
+export interface FeedbackInput {
+  chartType: ChartTypeId;
+  action: FeedbackAction;
+  rank?: number;
+  fingerprint?: string;
+  intent?: string;
+  data?: DataPoint[];
+  question?: string;
+  schema?: ColumnSchema;
+  locale?: string;
+}
+
+// Where feedback is kept. Synchronous so that ranking stays synchronous.
+export interface FeedbackStore {
+  append(record: FeedbackRecord): void;
+  list(): FeedbackRecord[];
+  clear(): void;
+}
+
+export interface ChartPreference {
+  chartType: ChartTypeId;
+  chosen: number;
+  rejected: number;
+  // Added to the confidence of this chart type for the key
+  adjustment: number;
+}
+
+export interface LearnedPreference extends FeedbackKey {
+  charts: ChartPreference[];
+}
+
+// Evidence for a chart type found in the data or the question
+export interface ScoreFeature {
+  id: string;
+  // How clearly the evidence is present, in [0, 1]
+  strength: number;
+  // Human-readable evidence, quoted in the suggestion's reasoning
+  reason: LocalizedText;
+}
+
+export interface ConfidenceFactor {
+  id: string;
+  strength: number;
+  weight: number;
+  // weight x strength
+  contribution: number;
+  reason: string;
+}
+
+export interface ConfidenceBreakdown {
+  // Confidence of a chart with no supporting evidence
+  base: number;
+  // Strongest contribution first
+  factors: ConfidenceFactor[];
+  // base plus the contributions, before the diminishing-returns curve
+  raw: number;
+  confidence: number;
+}
+
+export interface ScoringOptions {
+  // Confidence of a chart with no supporting evidence (default 0.5)
+  base?: number;
+  // Weight per chart type and factor id, over the plugins' own weights
+  weights?: Partial<Record<ChartTypeId, Record<string, number>>>;
+}
+
+export type InsightType = 'concentration' | 'trend' | 'mover' | 'contributor' | 'evenness' | 'anomaly' | 'correlation' | 'forecast';
+
+export type InsightSeverity = 'low' | 'medium' | 'high';
+
+// Structured finding about a chart's data (recorded in `meta.insights`, rendered into `meta.narrative`)
+export interface Insight {
+  type: InsightType;
+  severity: InsightSeverity;
+  text: string;
+  // Labels (categories, periods or series) the insight refers to
+  labels: string[];
+  // Headline number: share %, slope, change, evenness index or coefficient
+  value?: number;
 }
 
 export interface ChartConfig {
@@ -37,18 +307,207 @@ export interface ChartConfig {
     labels: string[];
     datasets: Array<{
       label: string;
-      data: number[];
+      data: Array<number | null> | ScatterPoint[];
+      // Per-dataset chart type override (e.g. a trend line over scatter points)
+      type?: string;
       backgroundColor?: string | string[];
-      borderColor?: string;
+      borderColor?: string | string[];
       borderWidth?: number;
-      fill?: boolean;
+      // '-1' fills down to the previous dataset (confidence bands)
+      fill?: boolean | string;
       tension?: number;
       stack?: string;
       yAxisID?: string;
+      borderDash?: number[];
+      // Per-point arrays highlight individual points (e.g. anomalies)
+      pointRadius?: number | number[];
+      pointBackgroundColor?: string | string[];
+      pointStyle?: string;
+      // Fill pattern(s) set in accessible mode; drawn by the SVG renderer
+      pattern?: PatternShape | PatternShape[];
     }>;
   };
+  // Geographic binding for 'map' configs
+  geo?: MapGeoSpec;
   // Allow flexible chart options (multi-axes, stacking, tooltips, etc.)
   options: any;
+  // How tick labels and tooltip values are displayed; see hydrateChartConfig
+  formats?: ChartFormats;
   // Optional metadata for UI narratives/KPIs
   meta?: any;
 }
+
+// JSON-safe value formatting, turned into Chart.js callbacks on the client
+export interface ValueFormat {
+  style: 'number' | 'percent' | 'currency' | 'compact' | 'date';
+  // Fixed number of decimals; otherwise up to 2 (1 for percent). Compact values keep up to 1
+  decimals?: number;
+  // ISO 4217 code for 'currency' (default BRL)
+  currency?: string;
+  // date-fns-style pattern for 'date' (yyyy, MM, MMM, dd, HH, mm)
+  pattern?: string;
+  // BCP 47 tag for Intl formatting (default pt-BR)
+  locale?: string;
+  // Short form for large numbers and amounts ("1,2 mi", "R$ 1,2 mi")
+  compact?: boolean;
+  // Always show the sign ("+1.234,50")
+  signed?: boolean;
+}
+
+// 'number', 'count', 'percent', 'currency' (the locale's) or an ISO 4217 code ('BRL', 'USD')
+export type ValueUnit = 'number' | 'count' | 'percent' | 'currency' | string;
+
+export interface ChartFormats {
+  // Tick labels, and tooltip values of the datasets plotted on each axis ('y', 'y1', ...)
+  axes?: Record<string, ValueFormat>;
+  // Values not tied to a formatted axis (pie slices)
+  value?: ValueFormat;
+}
+
+export interface MapFeatureBinding {
+  label: string;
+  featureId: string | null;
+  name?: string;
+  centroid?: [number, number];
+}
+
+export interface MapPoint {
+  label: string;
+  lat: number;
+  lng: number;
+  value: number;
+}
+
+export interface MapGeoSpec {
+  mode: 'choropleth' | 'points';
+  // Boundary set id (e.g. 'br-states', 'world-countries') for choropleths
+  boundary?: string;
+  features?: MapFeatureBinding[];
+  points?: MapPoint[];
+  // Labels that could not be matched to a feature of the boundary set
+  unmatched: string[];
+}
+
+export interface TableColumnFormat {
+  kind: 'text' | 'number' | 'date' | 'boolean';
+  decimals?: number;
+  thousandsSeparator?: boolean;
+  // From the column's currency/percent role
+  style?: 'currency' | 'percent';
+  // date-fns pattern for date columns
+  pattern?: string;
+}
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  type: ColumnType;
+  align: 'left' | 'center' | 'right';
+  format: TableColumnFormat;
+  sortable: boolean;
+}
+
+export interface TablePagination {
+  // Rows beyond the current page are fetched from the server
+  mode: 'server';
+  page: number;
+  pageSize: number;
+  totalRows: number;
+  totalPages: number;
+}
+
+export interface TableConfig {
+  type: 'table';
+  columns: TableColumn[];
+  // Rows of the current page, already sorted
+  rows: DataPoint[];
+  sort: { column: string; direction: 'asc' | 'desc' } | null;
+  // Totals row keyed by column (null where a total makes no sense)
+  totals: Record<string, number | string | null> | null;
+  pagination: TablePagination;
+  options: any;
+  meta?: any;
+}
+
+export interface DashboardPanelPosition {
+  // Grid units (see Dashboard.layout)
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type DashboardPanel =
+  | { id: string; kind: 'kpi'; position: DashboardPanelPosition; card: { type: string; title: string; value: string } }
+  | { id: string; kind: 'chart'; role: 'primary' | 'supporting'; position: DashboardPanelPosition; suggestion: ChartSuggestion }
+  | { id: string; kind: 'narrative'; position: DashboardPanelPosition; text: string };
+
+export interface Dashboard {
+  title: string;
+  layout: { columns: number; rowHeight: number };
+  panels: DashboardPanel[];
+}
+
+// Plain string, or one string per locale (e.g. { 'pt-BR': 'Mapa', en: 'Map' })
+export type LocalizedText = string | Record<string, string>;
+
+export interface QuestionIntents {
+  growth: boolean;
+  trend: boolean;
+  distribution: boolean;
+  ranking: boolean;
+  correlation: boolean;
+  geographic: boolean;
+  forecast: boolean;
+}
+
+// Everything a chart plugin may inspect when deciding whether and how well it fits
+export interface ChartContext {
+  data: DataPoint[];
+  dataStructure: DataStructure;
+  // Lowercased question ('' when none was given)
+  question: string;
+  locale: SupportedLocale;
+  intents: QuestionIntents;
+  // Explicit or inferred from the question
+  aggregation: AggregationFunction;
+  // Explicit or parsed from the question ("top 10")
+  topN?: number;
+  // Set when the caller or the question asks for a projection
+  forecast?: ForecastOptions;
+  // Colour-blind-safe styling was requested
+  accessible?: boolean;
+  // Resolved theme of the request
+  theme?: Theme;
+  // Caller-declared units per measure column
+  units?: Record<string, ValueUnit>;
+  // Requested table page
+  page?: number;
+  pageSize?: number;
+  hasCategory: boolean;
+  categoryUniqueCount: number;
+  hasTime: boolean;
+  hasTwoNumbers: boolean;
+  hasTwoCategories: boolean;
+}
+
+export interface ChartPlugin {
+  type: ChartTypeId;
+  title: LocalizedText;
+  description: LocalizedText;
+  // Whether the chart should be proposed for this data/question
+  isApplicable(context: ChartContext): boolean;
+  // Evidence for this chart; the engine weighs it into the confidence and the reasoning
+  features?(context: ChartContext): ScoreFeature[];
+  // Default weight per feature id
+  weights?: Record<string, number>;
+  // Confidence in [0, 1] of plugins without `features`
+  score?(context: ChartContext): number;
+  generate(data: DataPoint[], dataStructure: DataStructure, options: ChartGenerationOptions, context: ChartContext): any;
+  // Lead sentence of the reasoning; the contributing features are appended
+  reasoning(context: ChartContext): LocalizedText;
+  // Proposed when no plugin is applicable
+  fallback?: boolean;
+  // Receives the time-series enrichments (growth series, KPI cards)
+  temporal?: boolean;
+}
@@ -0,0 +1,333 @@
+import { AggregationFunction, ColumnRole, ColumnSchema, DataPoint, FeedbackInput, ForecastOptions, ThemeSelection, ValueUnit } from './types';
+import { isAggregationFunction } from './aggregation';
+import { EXPORT_FORMATS, ExportFormat } from './exporters';
+import { getTheme, isHexColor, listThemes } from './theme';
+
+// Machine-readable error codes returned by the HTTP server (`{ success: false, code, error, field }`)
+export type ErrorCode =
+  | 'invalid_json'
+  | 'invalid_csv'
+  | 'invalid_ndjson'
+  | 'payload_too_large'
+  | 'invalid_body'
+  | 'invalid_data'
+  | 'invalid_row'
+  | 'too_many_rows'
+  | 'too_many_columns'
+  | 'invalid_question'
+  | 'invalid_schema'
+  | 'invalid_aggregation'
+  | 'invalid_top_n'
+  | 'invalid_page'
+  | 'invalid_forecast'
+  | 'invalid_format'
+  | 'invalid_config'
+  | 'invalid_theme'
+  | 'invalid_units'
+  | 'invalid_feedback'
+  | 'invalid_chart_type'
+  | 'unknown_chart_type'
+  | 'png_unavailable'
+  | 'internal_error';
+
+export const ERROR_CODES: ErrorCode[] = [
+  'invalid_json', 'invalid_csv', 'invalid_ndjson', 'payload_too_large', 'invalid_body', 'invalid_data', 'invalid_row', 'too_many_rows', 'too_many_columns',
+  'invalid_question', 'invalid_schema', 'invalid_aggregation', 'invalid_top_n', 'invalid_page', 'invalid_forecast',
+  'invalid_format', 'invalid_config', 'invalid_theme', 'invalid_units', 'invalid_feedback', 'invalid_chart_type', 'unknown_chart_type',
+  'png_unavailable', 'internal_error',
+];
+
+export interface ValidationLimits {
+  maxRows: number;
+  maxColumns: number;
+  maxQuestionLength: number;
+}
+
+export const DEFAULT_VALIDATION_LIMITS: ValidationLimits = {
+  maxRows: 1000000,
+  maxColumns: 100,
+  maxQuestionLength: 1000,
+};
+
+const COLUMN_ROLES: ColumnRole[] = ['measure', 'dimension', 'time', 'geo', 'identifier', 'currency', 'percent'];
+const COLUMN_TYPES = ['string', 'number', 'date', 'boolean'];
+const FORECAST_MODELS = ['linear', 'holt-winters', 'auto'];
+const VALUE_UNITS = ['number', 'count', 'percent', 'currency'];
+
+// Thrown for request bodies the server should answer with a 4xx
+export class RequestValidationError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly field?: string, readonly status = 400) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+}
+
+export interface SuggestRequest {
+  data: DataPoint[];
+  question?: string;
+  schema?: ColumnSchema;
+  aggregation?: AggregationFunction;
+  topN?: number;
+  forecast?: boolean | ForecastOptions;
+  accessible?: boolean;
+  theme?: ThemeSelection;
+  units?: Record<string, ValueUnit>;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface RenderRequest {
+  config?: any;
+  data?: DataPoint[];
+  question?: string;
+  chartType?: string;
+  width?: number;
+  height?: number;
+  theme?: ThemeSelection;
+  format: 'svg' | 'png';
+  accessible?: boolean;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function requireBody(body: unknown): Record<string, any> {
+  if (!isPlainObject(body)) throw new RequestValidationError('invalid_body', 'Request body must be a JSON object');
+  return body;
+}
+
+// Rows must be objects; the row count and the number of distinct columns are capped
+export function validateData(data: unknown, limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS): DataPoint[] {
+  if (!Array.isArray(data)) throw new RequestValidationError('invalid_data', 'Invalid data format: expected an array of rows', 'data');
+  if (data.length > limits.maxRows) {
+    throw new RequestValidationError('too_many_rows', `Too many rows: ${data.length} (max ${limits.maxRows})`, 'data', 413);
+  }
+  const columns = new Set<string>();
+  data.forEach((row, i) => {
+    if (!isPlainObject(row)) throw new RequestValidationError('invalid_row', `Row ${i} must be an object`, `data[${i}]`);
+    for (const key of Object.keys(row)) columns.add(key);
+  });
+  if (columns.size > limits.maxColumns) {
+    throw new RequestValidationError('too_many_columns', `Too many columns: ${columns.size} (max ${limits.maxColumns})`, 'data', 413);
+  }
+  return data;
+}
+
+export function validateQuestion(question: unknown, limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS): string | undefined {
+  if (question === undefined || question === null) return undefined;
+  if (typeof question !== 'string') throw new RequestValidationError('invalid_question', 'question must be a string', 'question');
+  if (question.length > limits.maxQuestionLength) {
+    throw new RequestValidationError('invalid_question', `question is too long (max ${limits.maxQuestionLength} characters)`, 'question');
+  }
+  return question;
+}
+
+function validateSchema(schema: unknown): ColumnSchema | undefined {
+  if (schema === undefined) return undefined;
+  if (!isPlainObject(schema)) throw new RequestValidationError('invalid_schema', 'Invalid schema format', 'schema');
+  for (const [column, entry] of Object.entries(schema)) {
+    const field = `schema.${column}`;
+    if (typeof entry === 'string') {
+      if (!COLUMN_ROLES.includes(entry as ColumnRole)) throw new RequestValidationError('invalid_schema', `Unknown role "${entry}"`, field);
+      continue;
+    }
+    if (!isPlainObject(entry)) throw new RequestValidationError('invalid_schema', 'Schema entries must be a role or an object', field);
+    if (entry.role !== undefined && !COLUMN_ROLES.includes(entry.role as ColumnRole)) {
+      throw new RequestValidationError('invalid_schema', `Unknown role "${entry.role}"`, `${field}.role`);
+    }
+    if (entry.type !== undefined && !COLUMN_TYPES.includes(entry.type as string)) {
+      throw new RequestValidationError('invalid_schema', `Unknown type "${entry.type}"`, `${field}.type`);
+    }
+    if (entry.sqlType !== undefined && typeof entry.sqlType !== 'string') {
+      throw new RequestValidationError('invalid_schema', 'sqlType must be a string', `${field}.sqlType`);
+    }
+  }
+  return schema as ColumnSchema;
+}
+
+function validateFlag(value: unknown, field: string): boolean | undefined {
+  if (value !== undefined && typeof value !== 'boolean') throw new RequestValidationError('invalid_body', `${field} must be a boolean`, field);
+  return value;
+}
+
+// A registered theme name, or overrides of one
+function validateTheme(theme: unknown): ThemeSelection | undefined {
+  if (theme === undefined) return undefined;
+  const unknown = (name: unknown, field: string) =>
+    new RequestValidationError('invalid_theme', `Unknown theme "${name}"; expected one of ${listThemes().join(', ')}`, field);
+  if (typeof theme === 'string') {
+    if (!getTheme(theme)) throw unknown(theme, 'theme');
+    return theme;
+  }
+  if (!isPlainObject(theme)) throw new RequestValidationError('invalid_theme', 'theme must be a name or an object', 'theme');
+  if (theme.extends !== undefined && !(typeof theme.extends === 'string' && getTheme(theme.extends))) throw unknown(theme.extends, 'theme.extends');
+  if (theme.mode !== undefined && !['light', 'dark'].includes(theme.mode as string)) {
+    throw new RequestValidationError('invalid_theme', 'theme.mode must be light or dark', 'theme.mode');
+  }
+  const isColorList = (value: unknown, length?: number) =>
+    Array.isArray(value) && value.length > 0 && (length === undefined || value.length === length) && value.every(isHexColor);
+  const palette = theme.palette ?? {};
+  const colors = theme.colors ?? {};
+  const font = theme.font ?? {};
+  if (!isPlainObject(palette) || !isPlainObject(colors) || !isPlainObject(font)) {
+    throw new RequestValidationError('invalid_theme', 'theme.palette, theme.colors and theme.font must be objects', 'theme');
+  }
+  for (const [key, length] of [['categorical', undefined], ['sequential', 2], ['diverging', 3]] as const) {
+    if (palette[key] !== undefined && !isColorList(palette[key], length)) {
+      throw new RequestValidationError('invalid_theme', `theme.palette.${key} must be a list of${length ? ` ${length}` : ''} #rgb or #rrggbb colours`, `theme.palette.${key}`);
+    }
+  }
+  for (const [key, value] of Object.entries(colors)) {
+    if (!isHexColor(value)) throw new RequestValidationError('invalid_theme', `theme.colors.${key} must be a #rgb or #rrggbb colour`, `theme.colors.${key}`);
+  }
+  if (font.family !== undefined && typeof font.family !== 'string') {
+    throw new RequestValidationError('invalid_theme', 'theme.font.family must be a string', 'theme.font.family');
+  }
+  for (const key of ['size', 'titleSize']) {
+    if (font[key] !== undefined && !(typeof font[key] === 'number' && (font[key] as number) > 0)) {
+      throw new RequestValidationError('invalid_theme', `theme.font.${key} must be a positive number`, `theme.font.${key}`);
+    }
+  }
+  return theme as ThemeSelection;
+}
+
+// Per-column units: number, count, percent, currency or a three-letter currency code
+function validateUnits(units: unknown): Record<string, ValueUnit> | undefined {
+  if (units === undefined) return undefined;
+  if (!isPlainObject(units)) throw new RequestValidationError('invalid_units', 'units must be an object of column units', 'units');
+  for (const [column, unit] of Object.entries(units)) {
+    if (!(typeof unit === 'string' && (VALUE_UNITS.includes(unit) || /^[A-Za-z]{3}$/.test(unit)))) {
+      throw new RequestValidationError('invalid_units', `Unknown unit "${unit}"; expected ${VALUE_UNITS.join(', ')} or a currency code`, `units.${column}`);
+    }
+  }
+  return units as Record<string, ValueUnit>;
+}
+
+function validateForecast(forecast: unknown): boolean | ForecastOptions | undefined {
+  if (forecast === undefined || typeof forecast === 'boolean') return forecast;
+  if (!isPlainObject(forecast)) throw new RequestValidationError('invalid_forecast', 'forecast must be a boolean or an object', 'forecast');
+  const { horizon, model, confidence } = forecast;
+  if (horizon !== undefined && !(Number.isInteger(horizon) && (horizon as number) > 0)) {
+    throw new RequestValidationError('invalid_forecast', 'forecast.horizon must be a positive integer', 'forecast.horizon');
+  }
+  if (model !== undefined && !FORECAST_MODELS.includes(model as string)) {
+    throw new RequestValidationError('invalid_forecast', `Unknown forecast model "${model}"`, 'forecast.model');
+  }
+  if (confidence !== undefined && !(typeof confidence === 'number' && confidence > 0 && confidence < 1)) {
+    throw new RequestValidationError('invalid_forecast', 'forecast.confidence must be between 0 and 1', 'forecast.confidence');
+  }
+  return forecast as ForecastOptions;
+}
+
+// Body of POST /suggest and POST /dashboard
+export function validateSuggestRequest(body: unknown, limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS): SuggestRequest {
+  const { data, question, schema, aggregation, topN, forecast, accessible, theme, units, page, pageSize } = requireBody(body);
+  if (aggregation !== undefined && !isAggregationFunction(aggregation)) {
+    throw new RequestValidationError('invalid_aggregation', 'Invalid aggregation', 'aggregation');
+  }
+  if (topN !== undefined && !(Number.isInteger(topN) && topN > 0)) {
+    throw new RequestValidationError('invalid_top_n', 'Invalid topN', 'topN');
+  }
+  for (const [field, value] of Object.entries({ page, pageSize })) {
+    if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0)) {
+      throw new RequestValidationError('invalid_page', `${field} must be a positive integer`, field);
+    }
+  }
+  return {
+    data: validateData(data, limits),
+    question: validateQuestion(question, limits),
+    schema: validateSchema(schema),
+    aggregation,
+    topN,
+    forecast: validateForecast(forecast),
+    accessible: validateFlag(accessible, 'accessible'),
+    theme: validateTheme(theme),
+    units: validateUnits(units),
+    page: page as number | undefined,
+    pageSize: pageSize as number | undefined,
+  };
+}
+
+// ?format= of POST /suggest
+export function validateExportFormat(format: unknown): ExportFormat {
+  const value = format ?? 'chartjs';
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new RequestValidationError('invalid_format', `Invalid format; expected one of ${EXPORT_FORMATS.join(', ')}`, 'format');
+  }
+  return value as ExportFormat;
+}
+
+// Just enough structure for the renderer to walk: labels and per-dataset values for charts,
+// columns and rows for tables
+function validateConfig(config: unknown): void {
+  if (!(isPlainObject(config) && typeof config.type === 'string')) {
+    throw new RequestValidationError('invalid_config', 'Invalid config: expected an object with a type', 'config');
+  }
+  if (config.type === 'table') {
+    if (!Array.isArray(config.columns) || !Array.isArray(config.rows)) {
+      throw new RequestValidationError('invalid_config', 'Invalid config: a table needs columns and rows arrays', 'config');
+    }
+    return;
+  }
+  const data = config.data;
+  if (!isPlainObject(data) || !Array.isArray(data.labels) || !Array.isArray(data.datasets)) {
+    throw new RequestValidationError('invalid_config', 'Invalid config: expected data.labels and data.datasets arrays', 'config.data');
+  }
+  data.datasets.forEach((dataset, i) => {
+    if (!(isPlainObject(dataset) && Array.isArray(dataset.data))) {
+      throw new RequestValidationError('invalid_config', `Invalid config: data.datasets[${i}].data must be an array`, `config.data.datasets[${i}]`);
+    }
+  });
+}
+
+// Body of POST /render: either a chart config or data (+ question/chartType)
+export function validateRenderRequest(body: unknown, limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS): RenderRequest {
+  const { config, data, question, chartType, width, height, theme, format = 'svg', accessible } = requireBody(body);
+  if (config === undefined && data === undefined) {
+    throw new RequestValidationError('invalid_body', 'Provide a chart config or a data array');
+  }
+  if (config !== undefined) validateConfig(config);
+  if (chartType !== undefined && typeof chartType !== 'string') {
+    throw new RequestValidationError('invalid_chart_type', 'chartType must be a string', 'chartType');
+  }
+  for (const [field, value] of Object.entries({ width, height })) {
+    if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value > 0)) {
+      throw new RequestValidationError('invalid_body', `${field} must be a positive number`, field);
+    }
+  }
+  if (!['svg', 'png'].includes(format)) {
+    throw new RequestValidationError('invalid_format', 'Invalid format; expected svg or png', 'format');
+  }
+  return {
+    config,
+    data: config === undefined ? validateData(data, limits) : undefined,
+    question: validateQuestion(question, limits),
+    chartType,
+    width,
+    height,
+    theme: validateTheme(theme),
+    format,
+    accessible: validateFlag(accessible, 'accessible'),
+  };
+}
+
+// Body of POST /feedback: the suggestion's feedbackKey, or the rows and question it was made for
+export function validateFeedbackRequest(body: unknown, limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS): FeedbackInput {
+  const { chartType, action, rank, fingerprint, intent, data, question, schema } = requireBody(body);
+  if (typeof chartType !== 'string' || !chartType) {
+    throw new RequestValidationError('invalid_chart_type', 'chartType must be a string', 'chartType');
+  }
+  if (action !== 'chosen' && action !== 'rejected') {
+    throw new RequestValidationError('invalid_feedback', 'action must be chosen or rejected', 'action');
+  }
+  if (rank !== undefined && !(Number.isInteger(rank) && rank > 0)) {
+    throw new RequestValidationError('invalid_feedback', 'rank must be a positive integer', 'rank');
+  }
+  const keyed = typeof fingerprint === 'string' && typeof intent === 'string';
+  if (!keyed && data === undefined) {
+    throw new RequestValidationError('invalid_feedback', 'Provide the suggestion\'s fingerprint and intent, or the data it was made for');
+  }
+  return keyed
+    ? { chartType, action, rank, fingerprint, intent }
+    : { chartType, action, rank, data: validateData(data, limits), question: validateQuestion(question, limits), schema: validateSchema(schema) };
+}
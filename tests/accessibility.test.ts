@@ -0,0 +1,44 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { COLORBLIND_SAFE_PALETTE } from '../src/accessibility';
+import { renderChartSvg } from '../src/render';
+
+describe('accessibility', () => {
+  const engine = new AutoChartingEngine();
+  const sales = [
+    { regiao: 'Sul', vendas: 120 },
+    { regiao: 'Norte', vendas: 30 },
+    { regiao: 'Leste', vendas: 75 },
+  ];
+
+  it('attaches alt text and a long description built from the data', () => {
+    const { config } = engine.suggestChart('bar_chart', sales, 'vendas por região', {}, { locale: 'en' });
+    const { altText, longDescription } = config.meta.accessibility;
+    expect(altText).toContain('3 categories');
+    expect(altText).toContain('Sul (120)');
+    expect(altText).toContain('Norte (30)');
+    expect(longDescription).toContain('Sul 120, Norte 30, Leste 75');
+  });
+
+  it('switches to a colour-blind-safe palette with patterns and dashes', () => {
+    const bars = engine.suggestChart('bar_chart', sales, 'vendas por região', {}, { accessible: true }).config;
+    expect(bars.data.datasets[0].backgroundColor).toEqual(COLORBLIND_SAFE_PALETTE.slice(0, 3));
+    expect(bars.data.datasets[0].pattern).toEqual(['diagonal', 'dots', 'cross']);
+
+    const lines = engine.suggestChart('line_chart', [
+      { mes: '2024-01', produto: 'A', vendas: 10 },
+      { mes: '2024-01', produto: 'B', vendas: 8 },
+      { mes: '2024-02', produto: 'A', vendas: 12 },
+      { mes: '2024-02', produto: 'B', vendas: 9 },
+    ], 'vendas por produto por mês', {}, { accessible: true }).config;
+    expect(lines.data.datasets.map((ds: any) => ds.borderDash)).toEqual([[], [8, 4]]);
+
+    // Pie slices keep their separators in the background colour of a dark theme
+    const pie = engine.suggestChart('pie_chart', sales, 'participação das vendas por região', {}, { accessible: true, theme: 'dark' }).config;
+    expect(pie.data.datasets[0].borderColor).toBe(pie.meta.theme.colors.background);
+
+    const svg = renderChartSvg(bars);
+    expect(svg).toContain('role="img"');
+    expect(svg).toContain('<title id="chart-title">');
+    expect(svg).toContain('fill="url(#pattern-0)"');
+  });
+});
@@ -11,4 +11,166 @@ describe('AutoChartingEngine', () => {
     expect(suggestions.length).toBeGreaterThan(0);
     expect(suggestions[0].type).toBeDefined();
   });
+
+  it('suggests a map when the question asks "por estado"', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { estado: 'SP', total: 10 },
+      { estado: 'RJ', total: 12 },
+      { estado: 'MG', total: 7 },
+    ];
+    const suggestions = eng.suggestCharts(data, 'vendas por estado');
+    expect(suggestions.map(s => s.type)).toContain('map');
+
+    // Region names no boundary set knows would give an empty map
+    const regions = [{ region: 'North', total: 10 }, { region: 'South', total: 12 }, { region: 'East', total: 7 }];
+    expect(eng.suggestCharts(regions, 'vendas por região').map(s => s.type)).not.toContain('map');
+    expect(eng.suggestCharts(regions, 'mapa das vendas por região').map(s => s.type)).not.toContain('map');
+  });
+
+  it('reports correlation coefficients in the narrative when asked', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { price: 10, units: 90 },
+      { price: 12, units: 80 },
+      { price: 15, units: 61 },
+      { price: 20, units: 40 },
+    ];
+    const scatter = eng.suggestCharts(data, 'correlação entre preço e unidades').find(s => s.type === 'scatter_plot');
+    expect(scatter?.config.meta.narrative).toContain('Pearson');
+    expect(scatter?.config.meta.correlation.spearman).toBe(-1);
+  });
+
+  it('orders and gap-fills time series chronologically', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { date: '2024-03-10', total: 5 },
+      { date: '2024-01-02', total: 3 },
+      { date: '2024-01-25', total: 4 },
+    ];
+    const line = eng.suggestCharts(data, 'vendas por mês').find(s => s.type === 'line_chart');
+    expect(line?.config.data.labels).toEqual(['2024-01', '2024-02', '2024-03']);
+    expect(line?.config.data.datasets[0].data).toEqual([7, 0, 5]);
+    expect(line?.config.meta.time).toEqual({ column: 'date', granularity: 'month', filled: 1 });
+  });
+
+  it('ranks charts contributed through the plugin registry', () => {
+    const eng = new AutoChartingEngine().registerChart({
+      type: 'kpi_tile',
+      title: { 'pt-BR': 'Indicador', en: 'KPI tile' },
+      description: 'Valor total em destaque',
+      isApplicable: ctx => ctx.dataStructure.rowCount > 0,
+      score: () => 0.99,
+      generate: data => ({ type: 'kpi_tile', value: data.reduce((acc, r) => acc + r.total, 0) }),
+      reasoning: () => 'Total consolidado',
+    });
+    const [first] = eng.suggestCharts([{ region: 'North', total: 10 }, { region: 'South', total: 12 }], 'vendas por região');
+    expect(first.type).toBe('kpi_tile');
+    expect(first.title).toBe('Indicador');
+    expect(first.config.value).toBe(22);
+  });
+
+  it('localizes titles, reasoning and narratives and reads keywords per locale', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { month: 'January', revenue: 100 },
+      { month: 'February', revenue: 120 },
+      { month: 'March', revenue: 90 },
+    ];
+    const [first] = eng.suggestCharts(data, 'revenue growth by month', { locale: 'en-US' });
+    expect(first.type).toBe('line_chart');
+    expect(first.title).toBe('Line Chart');
+    expect(first.reasoning).toBe('A line chart is ideal for showing trends over time: the data is a time series; the question asks about growth or months');
+    expect(first.config.options.plugins.title.text).toBe('revenue over time');
+    expect(first.config.meta.cards[0].title).toBe('Growth February→March');
+    expect(first.config.meta.narrative).toContain('Average:');
+
+    const [spanish] = eng.suggestCharts(data, 'crecimiento de ingresos', { locale: 'es' });
+    expect(spanish.title).toBe('Gráfico de Líneas');
+    expect(spanish.config.meta.cards).toHaveLength(1);
+
+    // Keywords match whole words; stems such as 'proporci*' still run on
+    const intentOf = (question: string, locale: string) => eng.suggestCharts(data, question, { locale })[0].feedbackKey!.intent;
+    expect(intentOf('laptop revenue by desktop exchange', 'en')).toBe('none');
+    expect(intentOf('proporción de ingresos y top 3', 'es')).toBe('distribution+ranking');
+  });
+
+  it('follows a caller-supplied schema over type detection', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { store_code: 101, cep: 1310100, revenue: 500.5, margin: 0.2 },
+      { store_code: 102, cep: 2040002, revenue: 320, margin: 0.35 },
+      { store_code: 103, cep: 3050003, revenue: 410.25, margin: 0.1 },
+    ];
+    const schema = {
+      store_code: 'identifier' as const,
+      cep: 'dimension' as const,
+      revenue: { sqlType: 'DECIMAL(12,2)' },
+      margin: 'percent' as const,
+    };
+
+    const structure = eng.analyzeDataStructure(data, schema);
+    expect(structure.columnTypes.cep).toBe('string');
+    expect(structure.columnRoles).toEqual({ store_code: 'identifier', cep: 'dimension', revenue: 'measure', margin: 'percent' });
+
+    const bar = eng.suggestChart('bar_chart', data, 'receita por cep', {}, { schema });
+    expect(bar.config.meta.encoding).toEqual({ dimension: 'cep', measure: 'revenue', measures: ['revenue', 'margin'] });
+
+    const table = eng.suggestChart('table', data, '', {}, { schema });
+    expect(table.config.totals.store_code).toBeNull();
+    expect(table.config.columns.find((c: any) => c.key === 'margin').format.style).toBe('percent');
+  });
+
+  it('picks the aggregation from the question', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { region: 'North', ticket: 10 },
+      { region: 'North', ticket: 20 },
+      { region: 'South', ticket: 40 },
+    ];
+    const bar = eng.suggestChart('bar_chart', data, 'média de ticket por região');
+    expect(bar.config.data.datasets[0].data).toEqual([15, 40]);
+    expect(bar.config.meta.narrative).toContain('Valores calculados como média de ticket.');
+
+    const [count] = eng.suggestCharts(data, 'how many tickets by region', { locale: 'en' });
+    expect(count.config.meta.aggregation).toBe('count');
+    expect(count.config.options.plugins.title.text).toContain('count of ticket');
+  });
+
+  it('reads N from "top 10" questions', () => {
+    const eng = new AutoChartingEngine();
+    const data = Array.from({ length: 40 }, (_, i) => ({ cliente: `C${i}`, receita: 100 + i }));
+    const ranking = eng.suggestCharts(data, 'top 5 clientes por receita').find(s => s.type === 'horizontal_bar');
+    expect(ranking?.config.data.labels).toEqual(['C39', 'C38', 'C37', 'C36', 'C35', 'Outros']);
+    expect(ranking?.config.meta.topN.folded).toBe(35);
+  });
+
+  it('annotates anomalies in time series and mentions them in the narrative', () => {
+    const eng = new AutoChartingEngine();
+    const vendas = [100, 105, 110, 160, 120, 125, 130, 135];
+    const data = vendas.map((v, i) => ({ mes: `2024-0${i + 1}`, vendas: v }));
+    const line = eng.suggestChart('line_chart', data, 'vendas por mês');
+    const [anomaly] = line.config.meta.annotations;
+    expect(anomaly).toMatchObject({ type: 'anomaly', index: 3, label: '2024-04', direction: 'above', method: 'trend' });
+    expect(line.config.data.datasets[0].pointRadius[3]).toBeGreaterThan(line.config.data.datasets[0].pointRadius[0]);
+    expect(line.config.meta.narrative).toContain('2024-04 ficou');
+    expect(line.config.meta.narrative).toContain('acima do esperado');
+  });
+
+  it('appends a dashed forecast with a confidence band for projection questions', () => {
+    const eng = new AutoChartingEngine();
+    const data = Array.from({ length: 12 }, (_, i) => ({ mes: `2024-${String(i + 1).padStart(2, '0')}`, vendas: 100 + i * 10 }));
+    const line = eng.suggestCharts(data, 'projeção de vendas por mês').find(s => s.type === 'line_chart');
+    expect(line?.config.meta.forecast).toMatchObject({ model: 'linear', horizon: 3, startIndex: 12 });
+    expect(line?.config.data.labels.slice(-3)).toEqual(['2025-01', '2025-02', '2025-03']);
+    const [forecast, lower, upper] = line?.config.data.datasets.slice(line.config.meta.forecast.datasetIndex);
+    expect(forecast.borderDash).toEqual([6, 4]);
+    expect(forecast.data.slice(-3)).toEqual([220, 230, 240]);
+    expect(lower.data[14]).toBeLessThanOrEqual(240);
+    expect(upper.fill).toBe('-1');
+
+    const seasonal = Array.from({ length: 24 }, (_, i) => ({ mes: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`, vendas: 100 + (i % 12) * 5 }));
+    const holtWinters = eng.suggestChart('line_chart', seasonal, 'vendas', {}, { forecast: { horizon: 2 } });
+    expect(holtWinters.config.meta.forecast).toMatchObject({ model: 'holt-winters', horizon: 2, seasonLength: 12 });
+  });
 });
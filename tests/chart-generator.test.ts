@@ -0,0 +1,132 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { generateChartConfig } from '../src/chart-generator';
+import { DataStructure } from '../src/types';
+
+const structure = (columnTypes: DataStructure['columnTypes'], rowCount: number): DataStructure => ({
+  hasTimeSeries: false,
+  hasCategories: true,
+  hasNumericalComparison: false,
+  hasGeographicData: true,
+  columnTypes,
+  rowCount,
+  columnCount: Object.keys(columnTypes).length,
+});
+
+describe('generateChartConfig', () => {
+  it('builds a choropleth matching Brazilian state names and codes', () => {
+    const data = [
+      { estado: 'São Paulo', vendas: 100 },
+      { estado: 'RJ', vendas: 60 },
+      { estado: 'minas gerais', vendas: 40 },
+      { estado: 'Atlântida', vendas: 5 },
+    ];
+    const config = generateChartConfig('map', data, structure({ estado: 'string', vendas: 'number' }, data.length));
+    expect(config.type).toBe('map');
+    expect(config.geo?.mode).toBe('choropleth');
+    expect(config.geo?.boundary).toBe('br-states');
+    expect(config.geo?.features?.map(f => f.featureId)).toEqual(['SP', 'RJ', 'MG', null]);
+    expect(config.geo?.unmatched).toEqual(['Atlântida']);
+  });
+
+  it('builds a point map when latitude/longitude columns are present', () => {
+    const data = [
+      { city: 'Recife', lat: -8.05, lng: -34.9, total: 3 },
+      { city: 'Curitiba', lat: -25.43, lng: -49.27, total: 7 },
+    ];
+    const config = generateChartConfig('map', data, structure({ city: 'string', lat: 'number', lng: 'number', total: 'number' }, data.length));
+    expect(config.geo?.mode).toBe('points');
+    expect(config.geo?.points?.[1]).toEqual({ label: 'Curitiba', lat: -25.43, lng: -49.27, value: 7 });
+  });
+
+  it('builds a typed, paginated table spec', () => {
+    const data = Array.from({ length: 120 }, (_, i) => ({ order_id: i + 1, region: i % 2 ? 'North' : 'South', total: i * 1.5 }));
+    const config = generateChartConfig('table', data, structure({ order_id: 'number', region: 'string', total: 'number' }, data.length));
+    expect(config.columns.map(c => [c.key, c.align, c.format.kind])).toEqual([
+      ['order_id', 'right', 'number'],
+      ['region', 'left', 'text'],
+      ['total', 'right', 'number'],
+    ]);
+    expect(config.sort).toEqual({ column: 'total', direction: 'desc' });
+    expect(config.rows).toHaveLength(50);
+    expect(config.rows[0].total).toBe(178.5);
+    expect(config.pagination).toEqual({ mode: 'server', page: 1, pageSize: 50, totalRows: 120, totalPages: 3 });
+    expect(config.totals).toEqual({ order_id: null, region: 'Total', total: 10710 });
+
+    const last = new AutoChartingEngine().suggestChart('table', data, '', {}, { page: 3, pageSize: 50 }).config;
+    expect(last.rows).toHaveLength(20);
+    expect(last.pagination).toMatchObject({ page: 3, totalPages: 3 });
+  });
+
+  it('pairs two measures as x/y points with a least-squares trend line', () => {
+    const data = [
+      { ad_spend: 1, revenue: 3 },
+      { ad_spend: 2, revenue: 5 },
+      { ad_spend: 3, revenue: 7 },
+      { ad_spend: 4, revenue: 9 },
+    ];
+    const config = generateChartConfig('scatter_plot', data, structure({ ad_spend: 'number', revenue: 'number' }, data.length));
+    expect(config.data.datasets[0].data[1]).toEqual({ x: 2, y: 5 });
+    const trend = config.data.datasets[1];
+    expect(trend.type).toBe('line');
+    expect(trend.data).toEqual([{ x: 1, y: 3 }, { x: 4, y: 9 }]);
+    expect(config.meta.correlation).toMatchObject({ x: 'ad_spend', y: 'revenue', pearson: 1, spearman: 1, slope: 2, intercept: 1 });
+  });
+
+  it('applies the requested aggregation and names it in the title', () => {
+    const data = [
+      { regiao: 'Sul', ticket: 10 },
+      { regiao: 'Sul', ticket: 30 },
+      { regiao: 'Norte', ticket: 5 },
+      { regiao: 'Norte', ticket: 7 },
+      { regiao: 'Norte', ticket: 30 },
+    ];
+    const ds = structure({ regiao: 'string', ticket: 'number' }, data.length);
+
+    const avg = generateChartConfig('bar_chart', data, ds, { aggregation: 'avg' });
+    expect(avg.data.datasets[0].data).toEqual([20, 14]);
+    expect(avg.data.datasets[0].label).toBe('média de ticket');
+    expect(avg.options.plugins.title.text).toBe('média de ticket por regiao');
+    expect(avg.meta.aggregation).toBe('avg');
+
+    expect(generateChartConfig('pie_chart', data, ds, { aggregation: 'median' }).data.datasets[0].data).toEqual([20, 7]);
+    expect(generateChartConfig('horizontal_bar', data, ds, { aggregation: 'count' }).data.datasets[0].data).toEqual([3, 2]);
+  });
+
+  it('keeps the top N categories and folds the rest into "Outros"', () => {
+    const data = Array.from({ length: 30 }, (_, i) => ({ produto: `P${i}`, vendas: i + 1 }));
+    const ds = structure({ produto: 'string', vendas: 'number' }, data.length);
+
+    const top3 = generateChartConfig('bar_chart', data, ds, { topN: 3 });
+    expect(top3.data.labels).toEqual(['P29', 'P28', 'P27', 'Outros']);
+    expect(top3.data.datasets[0].data).toEqual([30, 29, 28, 27 * 28 / 2]);
+    expect(top3.meta.topN).toEqual({ limit: 3, folded: 27 });
+
+    // Rankings are always limited; unreadable pies fall back to the default N
+    expect(generateChartConfig('horizontal_bar', data, ds).data.labels).toHaveLength(11);
+    expect(generateChartConfig('pie_chart', data, ds).meta.topN).toEqual({ limit: 10, folded: 20 });
+    expect(generateChartConfig('pie_chart', data.slice(0, 5), ds).meta.topN).toBeUndefined();
+  });
+
+  it('plots every measure and moves smaller scales to a secondary axis', () => {
+    const data = [
+      { mes: '2024-01', receita: 120000, pedidos: 300, margem: 0.21 },
+      { mes: '2024-02', receita: 150000, pedidos: 340, margem: 0.25 },
+      { mes: '2024-03', receita: 90000, pedidos: 280, margem: 0.18 },
+    ];
+    const ds = structure({ mes: 'date', receita: 'number', pedidos: 'number', margem: 'number' }, data.length);
+
+    const combo = generateChartConfig('bar_chart', data, ds);
+    expect(combo.data.datasets.map(d => [d.label, d.type, d.yAxisID])).toEqual([
+      ['receita', undefined, 'y'],
+      ['pedidos', 'line', 'y1'],
+      ['margem', 'line', 'y1'],
+    ]);
+    expect(combo.data.datasets[1].data).toEqual([300, 340, 280]);
+    expect(combo.options.scales.y1.position).toBe('right');
+    expect(combo.meta.secondaryAxis).toEqual(['pedidos', 'margem']);
+
+    const lines = generateChartConfig('line_chart', data, ds, { measures: ['pedidos', 'margem'] });
+    expect(lines.data.datasets.map(d => d.yAxisID)).toEqual(['y', 'y1']);
+    expect(generateChartConfig('line_chart', data, ds, { measure: 'receita' }).data.datasets).toHaveLength(1);
+  });
+});
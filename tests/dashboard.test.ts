@@ -0,0 +1,46 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { composeDashboard } from '../src/dashboard';
+
+describe('composeDashboard', () => {
+  const data = [
+    { month: 'Janeiro', region: 'North', revenue: 100, orders: 10 },
+    { month: 'Fevereiro', region: 'South', revenue: 140, orders: 12 },
+    { month: 'Março', region: 'North', revenue: 120, orders: 9 },
+    { month: 'Abril', region: 'South', revenue: 180, orders: 15 },
+  ];
+
+  it('lays out KPIs, a primary chart, distinct supporting charts and a narrative', () => {
+    const dashboard = composeDashboard(new AutoChartingEngine(), data, 'crescimento da receita por mês');
+    const kinds = dashboard.panels.map(p => p.kind);
+    expect(kinds).toContain('kpi');
+    expect(kinds).toContain('narrative');
+
+    const charts = dashboard.panels.filter(p => p.kind === 'chart');
+    expect(charts.filter(p => p.kind === 'chart' && p.role === 'primary')).toHaveLength(1);
+
+    const pairs = charts.map(p => (p.kind === 'chart' ? JSON.stringify([p.suggestion.config.meta.encoding.dimension, p.suggestion.config.meta.encoding.measure]) : ''));
+    expect(new Set(pairs).size).toBe(pairs.length);
+    expect(charts.length).toBeGreaterThan(1);
+
+    for (const panel of dashboard.panels) {
+      expect(panel.position.x + panel.position.w).toBeLessThanOrEqual(dashboard.layout.columns);
+      expect(panel.position.w).toBeGreaterThan(0);
+      expect(panel.position.h).toBeGreaterThan(0);
+    }
+  });
+
+  it('follows the caller schema when picking supporting measures and dimensions', () => {
+    const rows = data.map((row, i) => ({ id: 101 + i, year: 2023 + (i % 2), region: row.region, revenue: row.revenue }));
+    const dashboard = composeDashboard(new AutoChartingEngine(), rows, 'receita por região', { schema: { id: 'identifier', year: 'time' } });
+    const encodings = dashboard.panels.flatMap(p => (p.kind === 'chart' ? [p.suggestion.config.meta.encoding] : []));
+    expect(encodings.length).toBeGreaterThan(0);
+    for (const encoding of encodings) {
+      expect(['id', 'year']).not.toContain(encoding.measure);
+      expect(encoding.dimension).not.toBe('id');
+    }
+
+    // Without a schema, id-named columns are still left out
+    const { panels } = composeDashboard(new AutoChartingEngine(), rows.map(({ id, ...row }) => ({ order_id: id, ...row })), 'receita por região');
+    expect(panels.some(p => p.kind === 'chart' && p.suggestion.config.meta.encoding.measure === 'order_id')).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { generateChartConfig } from '../src/chart-generator';
+import { exportChartConfig, toECharts, toVegaLite } from '../src/exporters';
+import { DataStructure } from '../src/types';
+
+const structure = (columnTypes: DataStructure['columnTypes']): DataStructure => ({
+  hasTimeSeries: false,
+  hasCategories: true,
+  hasNumericalComparison: true,
+  hasGeographicData: false,
+  columnTypes,
+  rowCount: 3,
+  columnCount: Object.keys(columnTypes).length,
+});
+
+describe('exporters', () => {
+  const combo = generateChartConfig(
+    'bar_chart',
+    [
+      { mes: '2024-01', receita: 120000, pedidos: 300 },
+      { mes: '2024-02', receita: 150000, pedidos: 340 },
+    ],
+    structure({ mes: 'date', receita: 'number', pedidos: 'number' })
+  );
+
+  it('maps combo charts with dual axes to Vega-Lite layers', () => {
+    const { spec, warnings } = toVegaLite(combo);
+    expect(warnings).toEqual([]);
+    expect(spec.layer.map((l: any) => l.mark.type)).toEqual(['bar', 'line']);
+    expect(spec.resolve).toEqual({ scale: { y: 'independent' } });
+    expect(spec.layer[1].encoding.y.axis.orient).toBe('right');
+    expect(spec.data.values).toContainEqual({ label: '2024-02', series: 'pedidos', value: 340 });
+  });
+
+  it('maps combo charts with dual axes to ECharts series', () => {
+    const { spec } = toECharts(combo);
+    expect(spec.xAxis).toEqual({ type: 'category', data: ['2024-01', '2024-02'] });
+    expect(spec.yAxis.map((a: any) => a.position)).toEqual(['left', 'right']);
+    expect(spec.series.map((s: any) => [s.type, s.yAxisIndex])).toEqual([['bar', 0], ['line', 1]]);
+    expect(spec.series[0].itemStyle.color).toBe(combo.data.datasets[0].backgroundColor);
+  });
+
+  it('keeps stacking and percent mode', () => {
+    const eng = new AutoChartingEngine();
+    const data = [
+      { produto: 'A', regiao: 'Sul', vendas: 10 },
+      { produto: 'A', regiao: 'Norte', vendas: 30 },
+      { produto: 'B', regiao: 'Sul', vendas: 5 },
+      { produto: 'B', regiao: 'Norte', vendas: 5 },
+    ];
+    const bar = eng.suggestChart('bar_chart', data, 'participação de vendas por produto e região');
+
+    const vega = toVegaLite(bar.config);
+    expect(vega.spec.encoding.y.stack).toBe('zero');
+    expect(vega.spec.encoding.y.scale).toEqual({ domain: [0, 100] });
+    expect(vega.spec.encoding.y.axis.labelExpr).toBe("datum.value + '%'");
+
+    const echarts = toECharts(bar.config);
+    expect(echarts.spec.series.every((s: any) => s.stack === 'total')).toBe(true);
+    expect(echarts.spec.yAxis[0]).toMatchObject({ max: 100, axisLabel: { formatter: '{value}%' } });
+  });
+
+  it('reports mappings it cannot preserve', () => {
+    const table = generateChartConfig('table', [{ a: 1 }], structure({ a: 'number' }));
+    expect(exportChartConfig(table, 'echarts')).toMatchObject({ spec: null, warnings: [{ code: 'unsupported_type' }] });
+
+    const map = generateChartConfig('map', [{ estado: 'SP', vendas: 3 }], structure({ estado: 'string', vendas: 'number' }));
+    const { spec, warnings } = toECharts(map);
+    expect(spec.series[0]).toMatchObject({ type: 'map', map: 'br-states', data: [{ name: 'SP', value: 3 }] });
+    expect(warnings[0].code).toBe('map_geometry_required');
+  });
+});
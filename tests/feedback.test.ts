@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AutoChartingEngine } from '../src/auto-charting';
+import { FileFeedbackStore } from '../src/feedback';
+
+describe('feedback', () => {
+  const monthly = [
+    { mes: '2024-01', vendas: 100 },
+    { mes: '2024-02', vendas: 120 },
+    { mes: '2024-03', vendas: 90 },
+  ];
+
+  it('promotes the suggestion users keep picking for the same data shape and intent', () => {
+    const engine = new AutoChartingEngine();
+    const [first, second] = engine.rankCharts(monthly, 'crescimento das vendas por mês');
+    expect([first.type, second.type]).toEqual(['line_chart', 'area_chart']);
+
+    for (let i = 0; i < 5; i++) {
+      engine.recordFeedback({ ...second.feedbackKey!, chartType: 'area_chart', action: 'chosen', rank: 2 });
+      engine.recordFeedback({ ...first.feedbackKey!, chartType: 'line_chart', action: 'rejected', rank: 1 });
+    }
+
+    // Different column names, same shape and intent
+    const renamed = monthly.map(row => ({ periodo: row.mes, receita: row.vendas }));
+    const [top] = engine.rankCharts(renamed, 'crescimento da receita por mês');
+    expect(top.type).toBe('area_chart');
+    expect(top.confidenceBreakdown?.factors.find(f => f.id === 'feedback')?.contribution).toBeGreaterThan(0);
+    expect(top.reasoning).toContain('usuários escolheram este gráfico');
+
+    expect(engine.exportFeedback().preferences[0].charts[0]).toMatchObject({ chartType: 'area_chart', chosen: 5, rejected: 0 });
+    expect(engine.resetFeedback()).toBe(10);
+    expect(engine.rankCharts(renamed, 'crescimento da receita por mês')[0].type).toBe('line_chart');
+  });
+
+  it('keeps records in an NDJSON file across engines', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'feedback-')), 'feedback.ndjson');
+    const engine = new AutoChartingEngine({ feedback: new FileFeedbackStore(file) });
+    engine.recordFeedback({ data: monthly, question: 'vendas por mês', chartType: 'bar_chart', action: 'chosen' });
+
+    const reloaded = new FileFeedbackStore(file);
+    expect(reloaded.list()).toHaveLength(1);
+    expect(reloaded.list()[0]).toMatchObject({ chartType: 'bar_chart', action: 'chosen', intent: 'none' });
+
+    reloaded.clear();
+    expect(new FileFeedbackStore(file).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { detectUnit, formatValue, hydrateChartConfig } from '../src/formatters';
+
+describe('declarative formatters', () => {
+  it('keeps percent formatting of enrichments through JSON serialization', () => {
+    const data = [
+      { mes: '2024-01', vendas: 100 },
+      { mes: '2024-02', vendas: 120 },
+      { mes: '2024-03', vendas: 90 },
+    ];
+    const { config } = new AutoChartingEngine().suggestChart('line_chart', data, 'crescimento das vendas por mês');
+    const sent = JSON.parse(JSON.stringify(config));
+    expect(sent).toEqual(config);
+    expect(sent.formats.axes.y1).toEqual({ style: 'percent', locale: 'pt-BR' });
+
+    const hydrated = hydrateChartConfig(sent);
+    expect(hydrated.options.scales.y1.ticks.callback(12.5)).toBe('12,5%');
+    const label = hydrated.options.plugins.tooltip.callbacks.label;
+    expect(label({ dataset: { label: 'Crescimento', yAxisID: 'y1' }, parsed: { x: 1, y: 20 } })).toBe('Crescimento: 20%');
+    expect(label({ dataset: { label: 'vendas' }, parsed: { x: 1, y: 120 } })).toBe('vendas: 120');
+    // The server-side copy stays callback-free
+    expect(sent.options.scales.y1.ticks?.callback).toBeUndefined();
+  });
+
+  it('formats currency, compact numbers and date patterns per locale', () => {
+    expect(formatValue(1234.5, { style: 'currency' }).replace(/\s/g, ' ')).toBe('R$ 1.234,50');
+    expect(formatValue(1234.5, { style: 'currency', currency: 'USD', locale: 'en' })).toBe('$1,234.50');
+    expect(formatValue(1200000, { style: 'compact', locale: 'en' })).toBe('1.2M');
+    expect(formatValue('2024-03-05', { style: 'date', pattern: 'dd/MM/yyyy' })).toBe('05/03/2024');
+    expect(formatValue('n/d', { style: 'number' })).toBe('n/d');
+  });
+
+  it('formats cards, narratives and ticks in the unit of the measure', () => {
+    const engine = new AutoChartingEngine();
+    const data = [1, 2, 3].map(m => ({ mes: `2024-0${m}`, receita: 1000000 + m * 250000.5, pedidos: 1200 * m }));
+    expect(detectUnit('receita', engine.analyzeDataStructure(data))).toBe('currency');
+    expect(detectUnit('pedidos', engine.analyzeDataStructure(data), { pedidos: 'count' })).toBe('count');
+
+    const { config } = engine.suggestChart('line_chart', data, 'crescimento da receita por mês');
+    const normalize = (text: string) => text.replace(/\s/g, ' ');
+    expect(normalize(config.meta.cards[0].value)).toBe('⬆️ 16,7% (+R$ 250.000,50)');
+    expect(normalize(config.meta.narrative)).toContain('Média: R$ 1,5 mi; Máx: R$ 1,8 mi (2024-03)');
+    expect(normalize(hydrateChartConfig(config).options.scales.y.ticks.callback(1500000))).toBe('R$ 1,5 mi');
+
+    const usd = engine.suggestChart('bar_chart', data, 'receita por mês', {}, { locale: 'en', units: { receita: 'USD' } });
+    expect(usd.config.meta.narrative).toContain('Average: $1.5M');
+  });
+});
@@ -0,0 +1,31 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { parseCsv, parseNdjson, PayloadParseError } from '../src/ingest';
+
+describe('payload ingestion', () => {
+  it('detects the delimiter and header of CSV and coerces values', () => {
+    const csv = '\uFEFFregiao;vendas;ativo;cep\r\nSul;"1.234,50";true;01310\r\n"Norte; interior";980;false;\r\n';
+    expect(parseCsv(csv)).toEqual([
+      { regiao: 'Sul', vendas: 1234.5, ativo: true, cep: '01310' },
+      { regiao: 'Norte; interior', vendas: 980, ativo: false, cep: null },
+    ]);
+    expect(parseCsv('regiao;vendas\nSul;1.234\nNorte;2.500.000\n')).toEqual([
+      { regiao: 'Sul', vendas: 1234 },
+      { regiao: 'Norte', vendas: 2500000 },
+    ]);
+    expect(parseCsv('Sul,10\nNorte,20\n')).toEqual([
+      { column_1: 'Sul', column_2: 10 },
+      { column_1: 'Norte', column_2: 20 },
+    ]);
+    expect(() => parseCsv('a,b\n1,"2\n')).toThrow(PayloadParseError);
+  });
+
+  it('parses NDJSON and feeds the parsed rows to the engine', () => {
+    expect(() => parseNdjson('{"a":1}\n[1]\n')).toThrow('NDJSON line 2');
+    const rows = parseNdjson('{"mes":"2024-01","vendas":10}\n\n{"mes":"2024-02","vendas":14}\n{"mes":"2024-03","vendas":12}\n');
+    expect(rows).toHaveLength(3);
+
+    const csvRows = parseCsv('produto,vendas\nA,10\nB,20\nC,15\n');
+    const [top] = new AutoChartingEngine().suggestCharts(csvRows, 'vendas por produto');
+    expect(top.config.data.datasets[0].data).toEqual([10, 20, 15]);
+  });
+});
@@ -0,0 +1,30 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { generateInsights, rankInsights } from '../src/insights';
+
+describe('insights', () => {
+  it('finds Pareto concentration and evenness for categories', () => {
+    const config = {
+      type: 'bar_chart',
+      data: { labels: ['Sudeste', 'Sul', 'Nordeste', 'Norte', 'Centro-Oeste', 'Outros'], datasets: [{ label: 'vendas', data: [500, 300, 40, 30, 20, 10] }] },
+      options: {},
+      meta: { encoding: { dimension: 'regiao', measure: 'vendas' } },
+    };
+    const insights = generateInsights(config, 'pt-BR');
+    const concentration = insights.find(i => i.type === 'concentration');
+    expect(concentration).toMatchObject({ severity: 'medium', labels: ['Sudeste', 'Sul'], value: 89 });
+    expect(concentration?.text).toBe('2 de 6 categorias concentram 89% do total (Sudeste, Sul).');
+    expect(insights.find(i => i.type === 'evenness')?.value).toBeLessThan(0.7);
+  });
+
+  it('describes trend, movers and contributors for time series and narrates them', () => {
+    const eng = new AutoChartingEngine();
+    const data = ['A', 'B'].flatMap(produto => [1, 2, 3, 4].map(m => ({ mes: `2024-0${m}`, produto, vendas: produto === 'A' ? m * 10 : 30 + m * 40 })));
+    const line = eng.suggestChart('line_chart', data, 'sales by month', {}, { locale: 'en' });
+    const insights = line.config.meta.insights;
+    expect(insights.map((i: any) => i.type)).toEqual(['trend', 'mover', 'contributor']);
+    expect(insights[0]).toMatchObject({ severity: 'high', value: 10, labels: ['2024-01', '2024-04'] });
+    expect(insights[2]).toMatchObject({ labels: ['B'], value: 40 });
+    expect(rankInsights(insights)[0].type).toBe('trend');
+    expect(line.config.meta.narrative).toContain('Upward trend: +10 per period');
+  });
+});
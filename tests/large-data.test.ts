@@ -0,0 +1,35 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { lttbIndices } from '../src/downsample';
+import { profileColumns } from '../src/profile';
+
+describe('large results', () => {
+  it('profiles columns in one pass with capped distinct counts', () => {
+    const data = Array.from({ length: 5000 }, (_, i) => ({ id: i, regiao: ['N', 'S'][i % 2], vendas: i % 7 }));
+    const profile = profileColumns(data, ['id', 'regiao', 'vendas'], 100);
+    expect(profile.columns.id.distinct).toBe(101);
+    expect(profile.columns.regiao.distinct).toBe(2);
+    expect(profile.columns.vendas.sample).toHaveLength(10);
+  });
+
+  it('keeps the extremes of a series when downsampling with LTTB', () => {
+    const values = Array.from({ length: 1000 }, (_, i) => (i === 500 ? 1000 : i % 10));
+    const kept = lttbIndices(values, 50);
+    expect(kept).toHaveLength(50);
+    expect(kept[0]).toBe(0);
+    expect(kept[kept.length - 1]).toBe(999);
+    expect(kept).toContain(500);
+  });
+
+  it('downsamples long series and samples scatter clouds, reporting the limits in meta', () => {
+    const eng = new AutoChartingEngine({ limits: { maxSeriesPoints: 100, maxScatterPoints: 200 } });
+    const daily = Array.from({ length: 730 }, (_, i) => ({ dia: new Date(Date.UTC(2023, 0, 1 + i)).toISOString().slice(0, 10), vendas: i }));
+    const line = eng.suggestChart('line_chart', daily, 'vendas por dia');
+    expect(line.config.data.labels).toHaveLength(100);
+    expect(line.config.meta.sampling).toEqual({ method: 'lttb', originalPoints: 730, points: 100, limit: 100 });
+
+    const points = Array.from({ length: 1000 }, (_, i) => ({ preco: i, quantidade: 1000 - i }));
+    const scatter = eng.suggestChart('scatter_plot', points, 'preço vs quantidade');
+    expect(scatter.config.data.datasets[0].data).toHaveLength(200);
+    expect(scatter.config.meta.sampling).toMatchObject({ method: 'stride', originalPoints: 1000, points: 200 });
+  });
+});
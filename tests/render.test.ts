@@ -0,0 +1,49 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { renderChart, renderChartSvg, renderQuestion } from '../src/render';
+
+describe('render', () => {
+  const data = [
+    { region: 'North', total: 10 },
+    { region: 'South', total: 12 },
+    { region: 'East', total: 4 },
+  ];
+
+  it('renders the top suggestion as a standalone SVG at the requested size', () => {
+    const image = renderQuestion(new AutoChartingEngine(), data, 'vendas por região', { width: 640, height: 360 });
+    expect(image.contentType).toBe('image/svg+xml');
+    const svg = image.body as string;
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="640" height="360"')).toBe(true);
+    expect(svg).toContain('>South</text>');
+    expect(svg.match(/<rect /g)!.length).toBeGreaterThan(3);
+
+    const table = new AutoChartingEngine().suggestChart('table', data).config;
+    expect(renderChartSvg(table)).toContain('>region</text>');
+  });
+
+  it('applies the dark theme and escapes text', () => {
+    const config = new AutoChartingEngine().suggestChart('line_chart', [
+      { month: '2024-01', 'a<b': 1 },
+      { month: '2024-02', 'a<b': 3 },
+    ]).config;
+    const svg = renderChartSvg(config, { theme: 'dark' });
+    expect(svg).toContain('fill="#111827"');
+    expect(svg).toContain('a&lt;b');
+    expect(svg).toContain('<path d="M');
+    expect(renderChartSvg(config, { theme: { colors: { background: '"/><script>alert(1)</script><rect x="' } } })).not.toContain('<script>');
+  });
+
+  it('converts to PNG through the optional converter, and reports it when missing', () => {
+    const config = new AutoChartingEngine().suggestChart('pie_chart', data).config;
+    const png = renderChart(config, { format: 'png', width: 320 });
+    expect(png.contentType).toBe('image/png');
+    expect((png.body as Buffer).subarray(1, 4).toString()).toBe('PNG');
+
+    jest.isolateModules(() => {
+      jest.doMock('@resvg/resvg-js', () => {
+        throw new Error("Cannot find module '@resvg/resvg-js'");
+      });
+      const { renderChart: renderWithoutConverter } = require('../src/render');
+      expect(() => renderWithoutConverter(config, { format: 'png' })).toThrow('@resvg/resvg-js');
+    });
+  });
+});
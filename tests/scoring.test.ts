@@ -0,0 +1,35 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+
+describe('confidence scoring', () => {
+  const monthly = [
+    { mes: '2024-01', vendas: 100 },
+    { mes: '2024-02', vendas: 120 },
+    { mes: '2024-03', vendas: 90 },
+  ];
+
+  it('explains each suggestion with weighted factors instead of tying at the cap', () => {
+    const [line, area] = new AutoChartingEngine().rankCharts(monthly, 'crescimento das vendas por mês');
+    expect(line.type).toBe('line_chart');
+    expect(area.type).toBe('area_chart');
+    expect(line.confidence).toBeGreaterThan(area.confidence);
+    expect(line.confidence).toBeLessThan(1);
+
+    expect(line.confidenceBreakdown).toMatchObject({
+      base: 0.5,
+      raw: 1.1,
+      factors: [
+        { id: 'timeSeries', weight: 0.35, strength: 1, contribution: 0.35 },
+        { id: 'timeQuestion', weight: 0.25, strength: 1, contribution: 0.25 },
+      ],
+    });
+    expect(line.reasoning).toBe('Gráfico de linha é ideal para mostrar tendências ao longo do tempo: os dados formam uma série temporal; a pergunta fala de crescimento ou de meses');
+  });
+
+  it('takes factor weights from the engine options', () => {
+    const engine = new AutoChartingEngine({ scoring: { weights: { area_chart: { timeSeries: 0.6 }, line_chart: { timeQuestion: 0 } } } });
+    const [first, second] = engine.rankCharts(monthly, 'crescimento das vendas por mês');
+    expect(first.type).toBe('area_chart');
+    expect(second.confidenceBreakdown?.factors.find(f => f.id === 'timeQuestion')?.contribution).toBe(0);
+    expect(second.reasoning).not.toContain('crescimento');
+  });
+});
@@ -0,0 +1,33 @@
+import { AutoChartingEngine } from '../src/auto-charting';
+import { renderChartSvg } from '../src/render';
+import { DARK_THEME, registerTheme, resolveTheme } from '../src/theme';
+
+describe('themes', () => {
+  const monthly = [
+    { mes: '2024-01', vendas: 100 },
+    { mes: '2024-02', vendas: 120 },
+    { mes: '2024-03', vendas: 90 },
+  ];
+
+  it('applies brand overrides to generated datasets and enrichments', () => {
+    const brand = { extends: 'light', name: 'acme', palette: { categorical: ['#ff6600', '#003366'] }, colors: { accent: '#003366' } };
+    const { config } = new AutoChartingEngine().suggestChart('line_chart', monthly, 'crescimento das vendas por mês', {}, { theme: brand });
+    const [sales, growth] = config.data.datasets;
+    expect(sales.borderColor).toBe('#ff6600');
+    expect(growth.borderColor).toBe('#003366');
+    expect(config.meta.theme).toMatchObject({ name: 'acme', colors: { background: '#ffffff' } });
+    expect(config.options.plugins.title.font.family).toBe(resolveTheme(brand).font.family);
+  });
+
+  it('uses registered themes as engine defaults and renders their background', () => {
+    registerTheme({ ...DARK_THEME, name: 'night', font: { family: 'Inter', size: 12, titleSize: 18 } });
+    const engine = new AutoChartingEngine({ theme: 'night' });
+    const { config } = engine.suggestChart('bar_chart', [{ regiao: 'Sul', vendas: 3 }, { regiao: 'Norte', vendas: 5 }]);
+    expect(config.data.datasets[0].backgroundColor).toEqual(DARK_THEME.palette.categorical.slice(0, 2));
+
+    const svg = renderChartSvg(config);
+    expect(svg).toContain(`fill="${DARK_THEME.colors.background}"`);
+    expect(svg).toContain('font-family="Inter"');
+    expect(() => registerTheme({ ...DARK_THEME, name: 'css', colors: { ...DARK_THEME.colors, grid: 'rgb(0, 0, 0)' } })).toThrow('non-hex colour');
+  });
+});
@@ -0,0 +1,30 @@
+import { buildTimeAxis, parseTemporal, sortChronologically } from '../src/time';
+
+describe('time', () => {
+  it('parses ISO dates, timestamps, months and quarters', () => {
+    expect(parseTemporal('2024-03-15')?.granularity).toBe('day');
+    expect(parseTemporal(1704067200000)?.date.getUTCFullYear()).toBe(2024);
+    expect(parseTemporal('2024-Q2')).toMatchObject({ granularity: 'quarter' });
+    expect(parseTemporal('2024-Q2')?.date.getMonth()).toBe(3);
+    expect(parseTemporal('Mar/2024')?.date.getMonth()).toBe(2);
+    expect(parseTemporal('Março')).toMatchObject({ granularity: 'month', yearless: true });
+    expect(parseTemporal('North')).toBeNull();
+  });
+
+  it('buckets daily values by month and fills missing periods', () => {
+    const axis = buildTimeAxis(['2024-01-05', '2024-01-20', '2024-04-02'], { granularity: 'month' });
+    expect(axis?.labels).toEqual(['2024-01', '2024-02', '2024-03', '2024-04']);
+    expect(axis?.bucketOf('2024-01-20')).toBe(0);
+    expect(axis?.filled).toBe(2);
+  });
+
+  it('coarsens the granularity for long spans', () => {
+    const days = Array.from({ length: 1000 }, (_, i) => new Date(2022, 0, 1 + i));
+    expect(buildTimeAxis(days)?.granularity).toBe('month');
+  });
+
+  it('orders quarter labels and month names chronologically', () => {
+    expect(sortChronologically(['2024-Q3', '2023-Q4', '2024-Q1'], [3, 4, 1]).values).toEqual([4, 1, 3]);
+    expect(sortChronologically(['Março', 'Janeiro', 'Fevereiro'], [3, 1, 2]).labels).toEqual(['Janeiro', 'Fevereiro', 'Março']);
+  });
+});
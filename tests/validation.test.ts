@@ -0,0 +1,46 @@
+import { buildOpenApiDocument } from '../src/openapi';
+import { ERROR_CODES, RequestValidationError, validateRenderRequest, validateSuggestRequest } from '../src/validation';
+
+const failure = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    return error as RequestValidationError;
+  }
+  throw new Error('expected a validation error');
+};
+
+describe('request validation', () => {
+  it('rejects malformed bodies with machine-readable codes', () => {
+    expect(failure(() => validateSuggestRequest([]))).toMatchObject({ code: 'invalid_body' });
+    expect(failure(() => validateSuggestRequest({ data: 'rows' }))).toMatchObject({ code: 'invalid_data', field: 'data' });
+    expect(failure(() => validateSuggestRequest({ data: [{ a: 1 }, 2] }))).toMatchObject({ code: 'invalid_row', field: 'data[1]' });
+    expect(failure(() => validateSuggestRequest({ data: [], question: 42 }))).toMatchObject({ code: 'invalid_question' });
+    expect(failure(() => validateSuggestRequest({ data: [], schema: { total: 'money' } }))).toMatchObject({ code: 'invalid_schema', field: 'schema.total' });
+    expect(failure(() => validateSuggestRequest({ data: [], pageSize: 2.5 }))).toMatchObject({ code: 'invalid_page', field: 'pageSize' });
+    expect(failure(() => validateSuggestRequest({ data: [], forecast: { horizon: 0 } }))).toMatchObject({ code: 'invalid_forecast', field: 'forecast.horizon' });
+    expect(failure(() => validateRenderRequest({ config: { type: 'bar_chart', data: { labels: [], datasets: [] } }, theme: 'neon' }))).toMatchObject({ code: 'invalid_theme' });
+    expect(failure(() => validateRenderRequest({ config: { type: 'bar_chart' } }))).toMatchObject({ code: 'invalid_config', field: 'config.data' });
+    expect(failure(() => validateRenderRequest({ config: { type: 'bar_chart', data: { labels: ['a'], datasets: [{ data: 5 }] } } }))).toMatchObject({ code: 'invalid_config', field: 'config.data.datasets[0]' });
+    expect(failure(() => validateRenderRequest({ config: { type: 'table', columns: [] } }))).toMatchObject({ code: 'invalid_config' });
+    expect(failure(() => validateSuggestRequest({ data: [], theme: { palette: { sequential: ['#fff'] } } }))).toMatchObject({ code: 'invalid_theme', field: 'theme.palette.sequential' });
+    expect(failure(() => validateSuggestRequest({ data: [], theme: { colors: { background: '"/><script>alert(1)</script><x a="' } } }))).toMatchObject({ code: 'invalid_theme', field: 'theme.colors.background' });
+    expect(failure(() => validateSuggestRequest({ data: [], units: { receita: 'reais' } }))).toMatchObject({ code: 'invalid_units', field: 'units.receita' });
+
+    const limits = { maxRows: 2, maxColumns: 2, maxQuestionLength: 10 };
+    expect(failure(() => validateSuggestRequest({ data: [{}, {}, {}] }, limits))).toMatchObject({ code: 'too_many_rows', status: 413 });
+    expect(failure(() => validateSuggestRequest({ data: [{ a: 1, b: 2 }, { c: 3 }] }, limits))).toMatchObject({ code: 'too_many_columns', status: 413 });
+
+    expect(validateSuggestRequest({ data: [{ a: 1 }], question: 'vendas', topN: 3, forecast: true })).toEqual({
+      data: [{ a: 1 }], question: 'vendas', schema: undefined, aggregation: undefined, topN: 3, forecast: true,
+    });
+  });
+
+  it('publishes the error codes and chart shapes in the OpenAPI document', () => {
+    const doc = buildOpenApiDocument();
+    expect(doc.openapi).toMatch(/^3\./);
+    expect(Object.keys(doc.paths)).toEqual(expect.arrayContaining(['/suggest', '/dashboard', '/render']));
+    expect(doc.components.schemas.Error.properties.code.enum).toEqual(ERROR_CODES);
+    expect(doc.components.schemas.ChartSuggestion.properties.config).toEqual({ $ref: '#/components/schemas/ChartConfig' });
+  });
+});